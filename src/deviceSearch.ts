@@ -0,0 +1,15 @@
+// Turns Find Device input into an LM filter: "prop=value" matches a system property, anything that looks like
+// an IP address matches system.ips, and everything else matches the display name or name.
+// Values are quoted so commas and || in them aren't read as filter operators; quotes can't be escaped, so
+// they're dropped as in Search Modules.
+export function buildDeviceSearchFilter(input: string): string {
+    const query = input.replace(/"/g, '').trim();
+    const propertyMatch = query.match(/^([\w.-]+)\s*=\s*(.+)$/);
+    if (propertyMatch) {
+        return `systemProperties.name:"${propertyMatch[1]}",systemProperties.value~"${propertyMatch[2]}"`;
+    }
+    if (/^[\d.]+$/.test(query) || /^[\da-f:]+:[\da-f:]*$/i.test(query)) {
+        return `systemProperties.name:"system.ips",systemProperties.value~"${query}"`;
+    }
+    return `displayName~"${query}"||name~"${query}"`;
+}
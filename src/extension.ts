@@ -2,11 +2,21 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto'; // For HMAC-SHA256
+import { fetch, Agent, ProxyAgent, Dispatcher, RequestInit, Response } from 'undici'; // fetch that accepts a proxy/CA dispatcher
+import { buildDeviceSearchFilter } from './deviceSearch';
+import { applyBatchInstanceContext, applyInstanceContext, INSTANCE_TOKENS } from './instanceContext';
+import { isProxyBypassed } from './noProxy';
+import { normalizeDefinition, summarizeDefinitionDifferences } from './moduleDefinitions';
+import { CollectionDataPoint, DiscoveredInstance, ParsedDiscoveryOutput, parseCollectionOutput, parseDiscoveryOutput } from './scriptOutput';
 
 interface Portal {
-    API_ACCESS_ID: string;
-    API_ACCESS_KEY: string;
+    AUTH_TYPE?: 'lmv1' | 'bearer'; // Defaults to lmv1
+    API_ACCESS_ID?: string; // lmv1 only
+    API_ACCESS_KEY?: string; // lmv1 only
+    BEARER_TOKEN?: string; // bearer only
     COMPANY_NAME: string;
+    BASE_URL?: string; // Overrides https://COMPANY_NAME.logicmonitor.com/santaba/rest, e.g. for GovCloud, a reverse proxy or a local stub
+    CA_CERT_PATH?: string; // PEM file with an extra CA to trust for this portal
 }
 
 interface CollectorGroup {
@@ -24,65 +34,62 @@ interface Device {
     id: number;
     name: string; // hostname
     displayName: string;
+    preferredCollectorId?: number;
 }
 
-interface DataSource {
+// A DataSource applied to a device
+interface DeviceDataSource {
     id: number;
-    name: string;
-    displayName: string;
+    dataSourceId: number;
+    dataSourceName: string;
+    dataSourceDisplayName: string;
+    instanceNumber?: number;
 }
 
-interface PropertySource {
+interface DeviceDataSourceInstance {
     id: number;
     name: string;
-    groovyScript: string;
-    windowsScript: string;
+    displayName: string;
+    wildValue: string;
 }
 
-interface EventSource {
+// Instance that scripts are run against, picked from the active device's DataSource instances
+interface ActiveInstance {
     id: number;
-    name: string;
-    groovyScript: string;
+    deviceDataSourceId: number;
+    dataSourceId: number;
+    dataSourceName: string;
+    displayName: string;
+    wildValue: string;
 }
 
-interface ConfigSource {
+interface DeviceGroup {
     id: number;
     name: string;
-    collectorAttribute: {
-        groovyScript: string;
-        scriptType: string;
-    };
-    autoDiscoveryConfig: {
-        method: {
-            groovyScript: string;
-            type: string;
-        }
-    }
+    numOfHosts?: number;
 }
 
-interface TopologySource {
+// List entry for any module type, as shown in the Remote branch of the Modules view
+interface RemoteModule {
     id: number;
     name: string;
-    collectorAttribute: {
-        groovyScript: string;
-        scriptType: string;
-    };
+    displayName?: string; // Only DataSources have one
+    // Only fetched for types listed with them in remoteListFields
+    group?: string;
+    appliesTo?: string;
+    collectMethod?: string;
+    version?: number;
+    description?: string;
 }
 
-interface LogSource {
-    id: number;
-    name: string;
-    collectionAttribute: {
-        script: {
-            embeddedContent: string;
-        }
-    }
-}
+// How a type's modules are bucketed under its node in the Remote branch
+type RemoteModuleGrouping = 'letter' | 'group' | 'collectMethod';
 
-interface AppliesToFunction {
-    id: number;
-    name: string;
-}
+const REMOTE_MODULE_GROUPING_LABELS: { [grouping in RemoteModuleGrouping]: string } = {
+    letter: 'First Letter',
+    group: 'LM Group',
+    collectMethod: 'Collect Method'
+};
 
 interface Manifest {
     name: string;
@@ -91,23 +98,266 @@ interface Manifest {
     portal: string;
     moduleType: string;
     pullDate: string;
+    pushDate?: string;
+    remoteHash?: string; // Hash of the portal definition as of the last pull/push
+    remoteVersion?: number;
+    fileHashes?: { [fileName: string]: string }; // Hashes of the files as written by the last pull/push
 }
 
-async function getCredentials(context: vscode.ExtensionContext): Promise<[string, Portal][] | undefined> {
-    const credsPath = context.workspaceState.get<string>('logicmonitor.credentialsPath');
-    if (!credsPath) {
-        vscode.window.showErrorMessage("Path to creds.json not set. Please set it in the LogicMonitor side bar.");
-        return;
+interface ModuleScriptFile {
+    fileName: string;
+    fieldPath: string[]; // Location of the script within the module definition
+    applies?: (moduleDefinition: any) => boolean; // Picks between .groovy and .ps1 when both target the same field
+}
+
+interface ModuleTypeInfo {
+    label: string;
+    resourcePath: string;
+    remoteContextValue: string; // contextValue of this type's items in the Remote branch of the Modules view
+    remoteRootId: string;
+    remoteRootLabel: string;
+    remoteListFields: string;
+    remoteGroupings: RemoteModuleGrouping[]; // The first is the default
+    pullCommand: string;
+    searchFields: string[]; // Fields matched by Search Modules; not every type has displayName or group
+    portalUiPath: string; // Module's page in the portal's Modules toolbox
+    scripts: ModuleScriptFile[];
+}
+
+// Keyed by the moduleType recorded in manifest.json. Script files mirror what the pull commands write out.
+const MODULE_TYPES: { [moduleType: string]: ModuleTypeInfo } = {
+    DataSource: {
+        label: 'DataSource',
+        resourcePath: '/setting/datasources',
+        remoteContextValue: 'remote-datasource',
+        remoteRootId: 'remote-data-sources',
+        remoteRootLabel: 'DataSources',
+        remoteListFields: 'id,name,displayName,group,appliesTo,collectMethod,version,description',
+        remoteGroupings: ['letter', 'group', 'collectMethod'],
+        pullCommand: 'logicmonitor.pullDataSource',
+        searchFields: ['name', 'displayName', 'group', 'description', 'appliesTo'],
+        portalUiPath: 'exchangeDataSources',
+        scripts: [
+            { fileName: 'discovery.groovy', fieldPath: ['autoDiscoveryConfig', 'method', 'groovyScript'] },
+            { fileName: 'collection.groovy', fieldPath: ['collectorAttribute', 'groovyScript'] }
+        ]
+    },
+    PropertySource: {
+        label: 'PropertySource',
+        resourcePath: '/setting/propertyrules',
+        remoteContextValue: 'remote-propertysource',
+        remoteRootId: 'remote-property-sources',
+        remoteRootLabel: 'PropertySources',
+        remoteListFields: 'id,name',
+        remoteGroupings: ['letter'],
+        pullCommand: 'logicmonitor.pullPropertySource',
+        searchFields: ['name', 'group', 'description', 'appliesTo'],
+        portalUiPath: 'exchangePropertySources',
+        scripts: [
+            { fileName: 'script.groovy', fieldPath: ['groovyScript'] },
+            { fileName: 'script.ps1', fieldPath: ['windowsScript'] }
+        ]
+    },
+    EventSource: {
+        label: 'EventSource',
+        resourcePath: '/setting/eventsources',
+        remoteContextValue: 'remote-eventsource',
+        remoteRootId: 'remote-event-sources',
+        remoteRootLabel: 'EventSources',
+        remoteListFields: 'id,name',
+        remoteGroupings: ['letter'],
+        pullCommand: 'logicmonitor.pullEventSource',
+        searchFields: ['name', 'group', 'description', 'appliesTo'],
+        portalUiPath: 'exchangeEventSources',
+        scripts: [
+            { fileName: 'script.groovy', fieldPath: ['groovyScript'] }
+        ]
+    },
+    ConfigSource: {
+        label: 'ConfigSource',
+        resourcePath: '/setting/configsources',
+        remoteContextValue: 'remote-configsource',
+        remoteRootId: 'remote-config-sources',
+        remoteRootLabel: 'ConfigSources',
+        remoteListFields: 'id,name',
+        remoteGroupings: ['letter'],
+        pullCommand: 'logicmonitor.pullConfigSource',
+        searchFields: ['name', 'displayName', 'group', 'description', 'appliesTo'],
+        portalUiPath: 'exchangeConfigSources',
+        scripts: [
+            { fileName: 'collection.groovy', fieldPath: ['collectorAttribute', 'groovyScript'], applies: def => def.collectorAttribute?.scriptType !== 'powerShell' },
+            { fileName: 'collection.ps1', fieldPath: ['collectorAttribute', 'groovyScript'], applies: def => def.collectorAttribute?.scriptType === 'powerShell' },
+            { fileName: 'discovery.groovy', fieldPath: ['autoDiscoveryConfig', 'method', 'groovyScript'], applies: def => def.autoDiscoveryConfig?.method?.type !== 'powerShell' },
+            { fileName: 'discovery.ps1', fieldPath: ['autoDiscoveryConfig', 'method', 'groovyScript'], applies: def => def.autoDiscoveryConfig?.method?.type === 'powerShell' }
+        ]
+    },
+    TopologySource: {
+        label: 'TopologySource',
+        resourcePath: '/setting/topologysources',
+        remoteContextValue: 'remote-topologysource',
+        remoteRootId: 'remote-topology-sources',
+        remoteRootLabel: 'TopologySources',
+        remoteListFields: 'id,name',
+        remoteGroupings: ['letter'],
+        pullCommand: 'logicmonitor.pullTopologySource',
+        searchFields: ['name', 'group', 'description', 'appliesTo'],
+        portalUiPath: 'exchangeTopologySources',
+        scripts: [
+            { fileName: 'script.groovy', fieldPath: ['collectorAttribute', 'groovyScript'], applies: def => def.collectorAttribute?.scriptType !== 'powerShell' },
+            { fileName: 'script.ps1', fieldPath: ['collectorAttribute', 'groovyScript'], applies: def => def.collectorAttribute?.scriptType === 'powerShell' }
+        ]
+    },
+    LogSource: {
+        label: 'LogSource',
+        resourcePath: '/setting/logsources',
+        remoteContextValue: 'remote-logsource',
+        remoteRootId: 'remote-log-sources',
+        remoteRootLabel: 'LogSources',
+        remoteListFields: 'id,name',
+        remoteGroupings: ['letter'],
+        pullCommand: 'logicmonitor.pullLogSource',
+        searchFields: ['name', 'group', 'description', 'appliesTo'],
+        portalUiPath: 'exchangeLogSources',
+        scripts: [
+            { fileName: 'script.groovy', fieldPath: ['collectionAttribute', 'script', 'embeddedContent'] }
+        ]
+    },
+    AppliesToFunction: {
+        label: 'AppliesTo Function',
+        resourcePath: '/setting/functions',
+        remoteContextValue: 'remote-applies-to-function',
+        remoteRootId: 'remote-applies-to-functions',
+        remoteRootLabel: 'AppliesTo Functions',
+        remoteListFields: 'id,name',
+        remoteGroupings: ['letter'],
+        pullCommand: 'logicmonitor.pullAppliesToFunction',
+        searchFields: ['name', 'description', 'code'],
+        portalUiPath: 'exchangeAppliesToFunctions',
+        scripts: []
+    }
+};
+
+// Maximum number of module definitions fetched at once by the bulk pull
+const BULK_PULL_CONCURRENCY = 4;
+
+// Portals added through the extension are kept in VS Code's secret storage as a single JSON object keyed by portal name
+const SECRET_PORTALS_KEY = 'logicmonitor.portals';
+
+async function getStoredPortals(context: vscode.ExtensionContext): Promise<{ [name: string]: Portal }> {
+    const storedPortals = await context.secrets.get(SECRET_PORTALS_KEY);
+    if (!storedPortals) {
+        return {};
+    }
+    try {
+        return JSON.parse(storedPortals);
+    } catch (error) {
+        console.error("Error parsing portals from secret storage:", error);
+        return {};
     }
+}
+
+async function storePortals(context: vscode.ExtensionContext, portals: { [name: string]: Portal }): Promise<void> {
+    await context.secrets.store(SECRET_PORTALS_KEY, JSON.stringify(portals));
+}
+
+const WORKSPACE_CONFIG_FILE = '.lmcoretool.json';
+
+// workspaceState keys that a team can also share through .lmcoretool.json, and their names in that file
+const WORKSPACE_CONFIG_KEYS: { [stateKey: string]: string } = {
+    'logicmonitor.activePortal': 'activePortal',
+    'logicmonitor.activeCollectorId': 'activeCollectorId',
+    'logicmonitor.activeCollectorDescription': 'activeCollectorDescription',
+    'logicmonitor.activeDeviceId': 'activeDeviceId',
+    'logicmonitor.activeDeviceDisplayName': 'activeDeviceDisplayName',
+    'logicmonitor.activeDeviceHostname': 'activeDeviceHostname',
+    'logicmonitor.activeInstance': 'activeInstance',
+    'logicmonitor.credentialsPath': 'credentialsPath',
+    'logicmonitor.debugEnabled': 'debugEnabled'
+};
+
+type SettingSource = 'workspaceState' | 'workspaceConfig' | 'default';
+
+function getWorkspaceConfigPath(): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    return workspaceFolders && workspaceFolders.length > 0 ? path.join(workspaceFolders[0].uri.fsPath, WORKSPACE_CONFIG_FILE) : undefined;
+}
+
+// Parsed once and kept until the file changes, since settings are read on every API request and tree render
+let workspaceConfigCache: { [name: string]: any } | undefined;
 
+function invalidateWorkspaceConfig(): void {
+    workspaceConfigCache = undefined;
+}
+
+function readWorkspaceConfig(): { [name: string]: any } {
+    if (workspaceConfigCache) {
+        return workspaceConfigCache;
+    }
+    workspaceConfigCache = {};
+    const configPath = getWorkspaceConfigPath();
+    if (!configPath || !fs.existsSync(configPath)) {
+        return workspaceConfigCache;
+    }
     try {
-        const credsContent = fs.readFileSync(credsPath, 'utf-8');
-        const creds = JSON.parse(credsContent);
-        return Object.entries(creds);
+        const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+        // A relative creds path is relative to the workspace, so the file works wherever the repo is cloned
+        if (typeof config.credentialsPath === 'string') {
+            config.credentialsPath = path.resolve(path.dirname(configPath), config.credentialsPath);
+        }
+        workspaceConfigCache = config;
     } catch (error) {
-        vscode.window.showErrorMessage("Error reading or parsing creds.json. Please make sure it exists and is correctly formatted.");
+        // Reported once; the empty config is kept until the file is changed again
+        vscode.window.showErrorMessage(`Error reading or parsing ${WORKSPACE_CONFIG_FILE}. Please make sure it is correctly formatted.`);
+    }
+    return workspaceConfigCache!;
+}
+
+// A selection made in this workspace wins over .lmcoretool.json. Selections cleared in this workspace are
+// stored as null so the shared value doesn't reappear.
+function getSettingWithSource<T>(context: vscode.ExtensionContext, key: string): { value: T | undefined, source: SettingSource } {
+    const localValue = context.workspaceState.get<T | null>(key);
+    if (localValue !== undefined) {
+        return { value: localValue === null ? undefined : localValue, source: 'workspaceState' };
+    }
+    const configName = WORKSPACE_CONFIG_KEYS[key];
+    const configValue = configName ? readWorkspaceConfig()[configName] : undefined;
+    if (configValue !== undefined && configValue !== null) {
+        return { value: configValue, source: 'workspaceConfig' };
+    }
+    return { value: undefined, source: 'default' };
+}
+
+function getSetting<T>(context: vscode.ExtensionContext, key: string): T | undefined;
+function getSetting<T>(context: vscode.ExtensionContext, key: string, defaultValue: T): T;
+function getSetting<T>(context: vscode.ExtensionContext, key: string, defaultValue?: T): T | undefined {
+    const { value } = getSettingWithSource<T>(context, key);
+    return value !== undefined ? value : defaultValue;
+}
+
+// Merges the portals from creds.json (if set) with those in secret storage; secret storage wins on name clashes
+async function getCredentials(context: vscode.ExtensionContext): Promise<[string, Portal][] | undefined> {
+    const credsPath = getSetting<string>(context, 'logicmonitor.credentialsPath');
+    const storedPortals = await getStoredPortals(context);
+
+    let filePortals: { [name: string]: Portal } = {};
+    if (credsPath) {
+        try {
+            const credsContent = fs.readFileSync(credsPath, 'utf-8');
+            filePortals = JSON.parse(credsContent);
+        } catch (error) {
+            vscode.window.showErrorMessage("Error reading or parsing creds.json. Please make sure it exists and is correctly formatted.");
+            if (Object.keys(storedPortals).length === 0) {
+                return;
+            }
+        }
+    }
+
+    const portals = { ...filePortals, ...storedPortals };
+    if (Object.keys(portals).length === 0) {
+        vscode.window.showErrorMessage("No portals configured. Please add a portal or set the path to creds.json in the LogicMonitor side bar.");
         return;
     }
+    return Object.entries(portals);
 }
 
 function generateLMv1AuthHeader(apiId: string, apiKey: string, httpVerb: string, resourcePath: string, epoch: string, data: string = ''): string {
@@ -120,6 +370,88 @@ function generateLMv1AuthHeader(apiId: string, apiKey: string, httpVerb: string,
     return `LMv1 ${apiId}:${signature}:${epoch}`;
 }
 
+function generateAuthHeader(portalDetails: Portal, httpVerb: string, resourcePath: string, epoch: string, data: string = ''): string {
+    if (portalDetails.AUTH_TYPE === 'bearer') {
+        if (!portalDetails.BEARER_TOKEN) {
+            throw new Error(`No BEARER_TOKEN configured for portal ${portalDetails.COMPANY_NAME}.`);
+        }
+        return `Bearer ${portalDetails.BEARER_TOKEN}`;
+    }
+
+    if (!portalDetails.API_ACCESS_ID || !portalDetails.API_ACCESS_KEY) {
+        throw new Error(`No API_ACCESS_ID/API_ACCESS_KEY configured for portal ${portalDetails.COMPANY_NAME}.`);
+    }
+    return generateLMv1AuthHeader(portalDetails.API_ACCESS_ID, portalDetails.API_ACCESS_KEY, httpVerb, resourcePath, epoch, data);
+}
+
+function getBaseUrl(portalDetails: Portal): string {
+    if (portalDetails.BASE_URL) {
+        return portalDetails.BASE_URL.replace(/\/+$/, '');
+    }
+    return `https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest`;
+}
+
+const dispatchers = new Map<string, Dispatcher>();
+
+// Builds (and caches) the connection settings for a portal from VS Code's http.proxy settings and the portal's CA_CERT_PATH
+function getDispatcher(portalDetails: Portal): Dispatcher | undefined {
+    const httpConfig = vscode.workspace.getConfiguration('http');
+    const noProxy = [...httpConfig.get<string[]>('noProxy', []), ...(process.env.NO_PROXY || process.env.no_proxy || '').split(',')];
+    const proxyUrl = isProxyBypassed(getBaseUrl(portalDetails), noProxy)
+        ? undefined
+        : httpConfig.get<string>('proxy') || process.env.HTTPS_PROXY || process.env.https_proxy || process.env.HTTP_PROXY || process.env.http_proxy;
+    const strictSSL = httpConfig.get<boolean>('proxyStrictSSL', true);
+    const caCertPath = portalDetails.CA_CERT_PATH;
+
+    if (!proxyUrl && !caCertPath && strictSSL) {
+        return undefined;
+    }
+
+    const cacheKey = `${proxyUrl}|${caCertPath}|${strictSSL}`;
+    let dispatcher = dispatchers.get(cacheKey);
+    if (!dispatcher) {
+        const connect = {
+            ca: caCertPath ? fs.readFileSync(caCertPath, 'utf-8') : undefined,
+            rejectUnauthorized: strictSSL
+        };
+        dispatcher = proxyUrl ? new ProxyAgent({ uri: proxyUrl, requestTls: connect, proxyTls: { rejectUnauthorized: strictSSL } }) : new Agent({ connect });
+        dispatchers.set(cacheKey, dispatcher);
+    }
+    return dispatcher;
+}
+
+// Retry policy for transient failures (429, 5xx, network errors)
+const MAX_API_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Earliest time the next request to each base URL may be sent, set when LM reports the rate limit window is used up
+const rateLimitedUntil = new Map<string, number>();
+
+// Honours Retry-After, then LM's X-Rate-Limit-* headers, then falls back to exponential backoff with jitter
+function getRetryDelay(response: Response | undefined, attempt: number): number {
+    const retryAfter = Number(response?.headers.get('retry-after'));
+    if (retryAfter > 0) {
+        return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS);
+    }
+    const rateLimitWindow = Number(response?.headers.get('x-rate-limit-window'));
+    if (response?.status === 429 && rateLimitWindow > 0) {
+        return Math.min(rateLimitWindow * 1000, RETRY_MAX_DELAY_MS);
+    }
+    const backoff = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+    return Math.min(backoff + Math.random() * RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+}
+
+function noteRateLimit(baseUrl: string, response: Response): void {
+    const remaining = response.headers.get('x-rate-limit-remaining');
+    const rateLimitWindow = Number(response.headers.get('x-rate-limit-window'));
+    if (remaining === '0' && rateLimitWindow > 0) {
+        rateLimitedUntil.set(baseUrl, Date.now() + Math.min(rateLimitWindow * 1000, RETRY_MAX_DELAY_MS));
+    }
+}
+
+// Failures are shown to the user before the error is rethrown, so a caller that can't carry on without the
+// response only needs to catch the error and stop
 async function makeApiRequest(
     context: vscode.ExtensionContext, // Added context parameter
     outputChannel: vscode.OutputChannel,
@@ -129,32 +461,19 @@ async function makeApiRequest(
     data: any = null,
     queryParams: { [key: string]: string } = {}
 ): Promise<any> {
-    const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-    const epoch = String(Date.now());
+    const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
     const requestData = data ? JSON.stringify(data) : '';
-    const authHeader = generateLMv1AuthHeader(
-        portalDetails.API_ACCESS_ID,
-        portalDetails.API_ACCESS_KEY,
-        httpVerb,
-        resourcePath,
-        epoch,
-        requestData
-    );
+    const baseUrl = getBaseUrl(portalDetails);
+    // A POST that failed with a 5xx may still have been applied, so only retry it when it was rejected outright
+    const idempotent = httpVerb !== 'POST';
 
-    let url = `https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}`;
+    let url = `${baseUrl}${resourcePath}`;
 
     if (Object.keys(queryParams).length > 0) {
         const queryString = new URLSearchParams(queryParams).toString();
         url = `${url}?${queryString}`;
     }
 
-    const headers: { [key: string]: string } = {
-        'Content-Type': 'application/json',
-        'Authorization': authHeader,
-        'X-version': '3', // Using V3 API
-        'Accept': 'application/json' // Explicitly set Accept header
-    };
-
     if (debugEnabled) {
         outputChannel.appendLine(`Making API request:`);
         outputChannel.appendLine(`  URL: ${url}`);
@@ -165,308 +484,361 @@ async function makeApiRequest(
         outputChannel.show(true); // Focus the output channel
     }
 
-    const options: RequestInit = {
-        method: httpVerb,
-        headers: headers,
-    };
+    try {
+        for (let attempt = 1; ; attempt++) {
+            const waitUntil = rateLimitedUntil.get(baseUrl);
+            if (waitUntil && waitUntil > Date.now()) {
+                await new Promise(resolve => setTimeout(resolve, waitUntil - Date.now()));
+            }
 
-    if (data) {
-        options.body = requestData;
-    }
+            // The LMv1 signature includes the epoch, so it is regenerated for every attempt
+            const epoch = String(Date.now());
+            const headers: { [key: string]: string } = {
+                'Content-Type': 'application/json',
+                'Authorization': generateAuthHeader(portalDetails, httpVerb, resourcePath, epoch, requestData),
+                'X-version': '3', // Using V3 API
+                'Accept': 'application/json' // Explicitly set Accept header
+            };
 
-    try {
-        const response = await fetch(url, options);
-        const responseJson = await response.json(); // Parse JSON once
+            const options: RequestInit = {
+                method: httpVerb,
+                headers: headers,
+                dispatcher: getDispatcher(portalDetails)
+            };
 
-        if (debugEnabled) {
-            // Log the response details
-            outputChannel.appendLine(`API Response:`);
-            outputChannel.appendLine(`  Status: ${response.status} ${response.statusText}`);
-            if (typeof responseJson === 'object' && responseJson !== null && 'items' in responseJson && Array.isArray(responseJson.items)) { // Check if 'items' exists and is an array
-                outputChannel.appendLine(`  Items fetched: ${responseJson.items.length}`);
-            } else {
-                outputChannel.appendLine(`  Body: ${JSON.stringify(responseJson, null, 2)}`); // Fallback for non-item responses
+            if (data) {
+                options.body = requestData;
             }
-        }
 
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.status} ${response.statusText} - ${JSON.stringify(responseJson)}`);
-        }
-        return responseJson;
-    } catch (error: any) {
-        vscode.window.showErrorMessage(`Failed to make API request: ${error.message}`);
-        throw error;
-    }
-}
+            let response: Response;
+            try {
+                response = await fetch(url, options);
+            } catch (error: any) {
+                if (idempotent && attempt < MAX_API_ATTEMPTS) {
+                    const delay = getRetryDelay(undefined, attempt);
+                    if (debugEnabled) {
+                        outputChannel.appendLine(`  Network error (${error.message}), retrying in ${Math.round(delay / 1000)}s (attempt ${attempt}/${MAX_API_ATTEMPTS})`);
+                    }
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                    continue;
+                }
+                throw new Error(`Could not reach ${baseUrl}: ${error.cause?.message || error.message}`);
+            }
 
-async function getCollectorGroups(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<CollectorGroup[]> {
-    let allGroups: CollectorGroup[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+            // Error pages (e.g. from a proxy) are not always JSON, so parse leniently
+            const responseText = await response.text();
+            let responseJson: any = responseText;
+            try {
+                responseJson = responseText ? JSON.parse(responseText) : null;
+            } catch (error) {
+                // Keep the raw text
+            }
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/collector/groups', null, { size: String(size), offset: String(offset), fields: 'id,name' });
-            if (response && response.items) {
-                allGroups = allGroups.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
+            if (debugEnabled) {
+                // Log the response details
+                outputChannel.appendLine(`API Response:`);
+                outputChannel.appendLine(`  Status: ${response.status} ${response.statusText}`);
+                if (typeof responseJson === 'object' && responseJson !== null && 'items' in responseJson && Array.isArray(responseJson.items)) { // Check if 'items' exists and is an array
+                    outputChannel.appendLine(`  Items fetched: ${responseJson.items.length}`);
                 } else {
-                    offset += size;
+                    outputChannel.appendLine(`  Body: ${JSON.stringify(responseJson, null, 2)}`); // Fallback for non-item responses
                 }
-            } else {
-                hasMore = false;
             }
-        }
-        return allGroups;
-    } catch (error) {
-        console.error("Error fetching collector groups:", error);
-        return [];
-    }
-}
 
-async function getCollectors(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<Collector[]> {
-    let allCollectors: Collector[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+            noteRateLimit(baseUrl, response);
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/collector/collectors', null, { size: String(size), offset: String(offset), fields: 'id,description,collectorGroupId' });
-            if (response && response.items) {
-                allCollectors = allCollectors.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
+            if (response.ok) {
+                return responseJson;
+            }
+
+            const retryable = response.status === 429 || (idempotent && response.status >= 500);
+            if (retryable && attempt < MAX_API_ATTEMPTS) {
+                const delay = getRetryDelay(response, attempt);
+                if (debugEnabled) {
+                    outputChannel.appendLine(`  Retrying in ${Math.round(delay / 1000)}s (attempt ${attempt}/${MAX_API_ATTEMPTS})`);
                 }
-            } else {
-                hasMore = false;
+                await new Promise(resolve => setTimeout(resolve, delay));
+                continue;
             }
+
+            const rateLimitNote = response.status === 429 ? ` (rate limited, gave up after ${attempt} attempts)` : '';
+            throw new Error(`API Error: ${response.status} ${response.statusText}${rateLimitNote} - ${JSON.stringify(responseJson)}`);
         }
-        return allCollectors;
-    } catch (error) {
-        console.error("Error fetching collectors:", error);
-        return [];
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to make API request: ${error.message}`);
+        throw error;
     }
 }
 
-async function getDevices(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal, collectorId: number): Promise<Device[]> {
-    let allDevices: Device[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+const PAGE_SIZE = 1000;
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/device/devices', null, { size: String(size), offset: String(offset), fields: 'id,name,displayName', filter: `preferredCollectorId:${collectorId}` });
-            if (response && response.items) {
-                allDevices = allDevices.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
-                }
-            } else {
-                hasMore = false;
-            }
+// Walks an LM list endpoint one page at a time. onProgress is told how many items have been loaded so far
+// and, when the API reports it, the total.
+async function* paginate<T>(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    portalDetails: Portal,
+    resourcePath: string,
+    queryParams: { [key: string]: string } = {},
+    onProgress?: (loaded: number, total?: number) => void
+): AsyncGenerator<T[]> {
+    let offset = 0;
+    while (true) {
+        const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', resourcePath, null, { ...queryParams, size: String(PAGE_SIZE), offset: String(offset) });
+        const items: T[] = response?.items || [];
+        offset += items.length;
+        onProgress?.(offset, typeof response?.total === 'number' && response.total >= 0 ? response.total : undefined);
+        if (items.length > 0) {
+            yield items;
+        }
+        if (items.length < PAGE_SIZE) {
+            return;
         }
-        return allDevices.sort((a, b) => a.displayName.localeCompare(b.displayName));
-    } catch (error) {
-        console.error(`Error fetching devices for collector ${collectorId}:`, error);
-        return [];
     }
 }
 
-async function getRemoteDataSources(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<DataSource[]> {
-    let allDataSources: DataSource[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
-
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/datasources', null, { size: String(size), offset: String(offset), fields: 'id,name,displayName' });
-            if (response && response.items) {
-                allDataSources = allDataSources.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
-                }
-            } else {
-                hasMore = false;
-            }
-        }
-        return allDataSources.sort((a, b) => a.displayName.localeCompare(b.displayName));
-    } catch (error) {
-        console.error("Error fetching remote DataSources:", error);
-        return [];
+async function fetchAllPages<T>(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    portalDetails: Portal,
+    resourcePath: string,
+    queryParams: { [key: string]: string } = {},
+    onProgress?: (loaded: number, total?: number) => void
+): Promise<T[]> {
+    let allItems: T[] = [];
+    for await (const page of paginate<T>(context, outputChannel, portalDetails, resourcePath, queryParams, onProgress)) {
+        allItems = allItems.concat(page);
     }
+    return allItems;
 }
 
-async function getRemotePropertySources(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<PropertySource[]> {
-    let allPropertySources: PropertySource[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+interface CacheEntry<T> {
+    fetchedAt: number;
+    items: T[];
+}
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/propertyrules', null, { size: String(size), offset: String(offset), fields: 'id,name,groovyScript,windowsScript' });
-            if (response && response.items) {
-                allPropertySources = allPropertySources.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
+// Remote lists are cached on disk, one file per portal, so reopening a tree or restarting VS Code doesn't
+// refetch thousands of devices and modules. Keys are paths such as 'navigation/collectors' or
+// 'modules/remote-data-sources' so a whole branch can be invalidated by prefix.
+class ResourceCache {
+    private portals = new Map<string, { [key: string]: CacheEntry<any> }>();
+
+    constructor(private storageDir: string) { }
+
+    private getCacheFile(portalDetails: Portal): string {
+        return path.join(this.storageDir, 'cache', `${getPortalIdentity(portalDetails)}.json`);
+    }
+
+    private getEntries(portalDetails: Portal): { [key: string]: CacheEntry<any> } {
+        const identity = getPortalIdentity(portalDetails);
+        let entries = this.portals.get(identity);
+        if (!entries) {
+            entries = {};
+            const cacheFile = this.getCacheFile(portalDetails);
+            if (fs.existsSync(cacheFile)) {
+                try {
+                    entries = JSON.parse(fs.readFileSync(cacheFile, 'utf8'));
+                } catch (error) {
+                    entries = {}; // A corrupt cache is just refetched
                 }
-            } else {
-                hasMore = false;
             }
+            this.portals.set(identity, entries!);
         }
-        return allPropertySources.sort((a, b) => a.name.localeCompare(b.name));
-    } catch (error) {
-        console.error("Error fetching remote PropertySources:", error);
-        return [];
+        return entries!;
     }
-}
 
-async function getRemoteEventSources(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<EventSource[]> {
-    let allEventSources: EventSource[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+    private save(portalDetails: Portal): void {
+        const cacheFile = this.getCacheFile(portalDetails);
+        fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+        fs.writeFileSync(cacheFile, JSON.stringify(this.getEntries(portalDetails)));
+    }
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/eventsources', null, { size: String(size), offset: String(offset), fields: 'id,name,groovyScript' });
-            if (response && response.items) {
-                allEventSources = allEventSources.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
-                }
-            } else {
-                hasMore = false;
-            }
-        }
-        return allEventSources.sort((a, b) => a.name.localeCompare(b.name));
-    } catch (error) {
-        console.error("Error fetching remote EventSources:", error);
-        return [];
+    isExpired(fetchedAt: number): boolean {
+        const ttlMinutes = vscode.workspace.getConfiguration('logicmonitor').get<number>('cacheTtlMinutes', 60);
+        return Date.now() - fetchedAt > ttlMinutes * 60 * 1000;
     }
-}
 
-async function getRemoteConfigSources(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<ConfigSource[]> {
-    let allConfigSources: ConfigSource[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+    // Returns the entry only while it is within the TTL
+    get<T>(portalDetails: Portal, key: string): CacheEntry<T> | undefined {
+        const entry = this.getEntries(portalDetails)[key];
+        return entry && !this.isExpired(entry.fetchedAt) ? entry : undefined;
+    }
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/configsources', null, { size: String(size), offset: String(offset), fields: 'id,name,collectorAttribute,autoDiscoveryConfig' });
-            if (response && response.items) {
-                allConfigSources = allConfigSources.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
-                }
-            } else {
-                hasMore = false;
-            }
-        }
-        return allConfigSources.sort((a, b) => a.name.localeCompare(b.name));
-    } catch (error) {
-        console.error("Error fetching remote ConfigSources:", error);
-        return [];
+    set<T>(portalDetails: Portal, key: string, items: T[]): CacheEntry<T> {
+        const entry = { fetchedAt: Date.now(), items };
+        this.getEntries(portalDetails)[key] = entry;
+        this.save(portalDetails);
+        return entry;
+    }
+
+    async getOrFetch<T>(portalDetails: Portal, key: string, fetch: () => Promise<T[]>): Promise<CacheEntry<T>> {
+        return this.get<T>(portalDetails, key) || this.set(portalDetails, key, await fetch());
+    }
+
+    invalidate(portalDetails: Portal, keyPrefix: string = ''): void {
+        const entries = this.getEntries(portalDetails);
+        Object.keys(entries).filter(key => key.startsWith(keyPrefix)).forEach(key => delete entries[key]);
+        this.save(portalDetails);
     }
 }
 
-async function getRemoteTopologySources(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<TopologySource[]> {
-    let allTopologySources: TopologySource[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+// Portal names are chosen by users and reused across workspaces for different companies, so cached lists
+// are keyed by where the portal's requests go and whose credentials they use instead
+function getPortalIdentity(portalDetails: Portal): string {
+    const credential = portalDetails.AUTH_TYPE === 'bearer' ? portalDetails.BEARER_TOKEN : portalDetails.API_ACCESS_ID;
+    return crypto.createHash('sha256').update(`${getBaseUrl(portalDetails)}\n${credential}`).digest('hex').slice(0, 32);
+}
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/topologysources', null, { size: String(size), offset: String(offset), fields: 'id,name,collectorAttribute' });
-            if (response && response.items) {
-                allTopologySources = allTopologySources.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
-                }
-            } else {
-                hasMore = false;
+function describeRefresh(fetchedAt: number | undefined): string | undefined {
+    return fetchedAt ? `refreshed ${new Date(fetchedAt).toLocaleTimeString()}` : undefined;
+}
+
+interface PagedLoad<T> {
+    items: T[];
+    total?: number;
+    done: boolean;
+    error?: string;
+    fetchedAt?: number; // Set once every page is in
+}
+
+// Lets a tree show the first page of a long list straight away while the rest loads in the background.
+// onUpdate is called with the element whose children changed each time another page arrives. Completed
+// lists are written to the ResourceCache and served from it until they expire or are invalidated.
+class PagedLoader {
+    private loads = new Map<string, Promise<PagedLoad<any>>>();
+    private tokens = new Map<string, object>(); // Identifies the current load of each key so forgotten ones stop fetching
+
+    constructor(private cache: ResourceCache, private onUpdate: (element: vscode.TreeItem) => void) { }
+
+    clear(): void {
+        this.loads.clear();
+        this.tokens.clear();
+    }
+
+    forget(portalDetails: Portal, keyPrefix: string = ''): void {
+        const prefix = `${getPortalIdentity(portalDetails)}:${keyPrefix}`;
+        Array.from(this.loads.keys()).filter(key => key.startsWith(prefix)).forEach(key => this.drop(key));
+    }
+
+    private drop(key: string): void {
+        this.loads.delete(key);
+        this.tokens.delete(key);
+    }
+
+    // Resolves once the first page is in; later calls with the same key return the same (growing) load
+    async load<T>(portalDetails: Portal, cacheKey: string, element: vscode.TreeItem, startPaging: (onProgress: (loaded: number, total?: number) => void) => AsyncGenerator<T[]>): Promise<PagedLoad<T>> {
+        const key = `${getPortalIdentity(portalDetails)}:${cacheKey}`;
+        const existing = this.loads.get(key);
+        if (existing) {
+            const state = await existing;
+            if (!state.fetchedAt || !this.cache.isExpired(state.fetchedAt)) {
+                return state;
+            }
+            if (this.loads.get(key) === existing) {
+                this.drop(key);
             }
+            return this.load(portalDetails, cacheKey, element, startPaging);
         }
-        return allTopologySources.sort((a, b) => a.name.localeCompare(b.name));
-    } catch (error) {
-        console.error("Error fetching remote TopologySources:", error);
-        return [];
-    }
-}
 
-async function getRemoteLogSources(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<LogSource[]> {
-    let allLogSources: LogSource[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+        const cached = this.cache.get<T>(portalDetails, cacheKey);
+        if (cached) {
+            const state: PagedLoad<T> = { items: cached.items, done: true, fetchedAt: cached.fetchedAt };
+            this.loads.set(key, Promise.resolve(state));
+            return state;
+        }
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/logsources', null, { size: String(size), offset: String(offset), fields: 'id,name,collectionAttribute' });
-            if (response && response.items) {
-                allLogSources = allLogSources.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
+        const token = {};
+        const isCurrent = () => this.tokens.get(key) === token;
+        const loadPromise: Promise<PagedLoad<T>> = (async () => {
+            const state: PagedLoad<T> = { items: [], done: false };
+            const pages = startPaging((_, total) => { state.total = total; });
+            const finish = () => {
+                state.done = true;
+                if (!state.error && isCurrent()) {
+                    state.fetchedAt = this.cache.set(portalDetails, cacheKey, state.items).fetchedAt;
                 }
-            } else {
-                hasMore = false;
+            };
+
+            const firstPage = await pages.next();
+            if (firstPage.done) {
+                finish();
+                return state;
+            }
+            state.items.push(...firstPage.value);
+
+            (async () => {
+                try {
+                    for await (const page of pages) {
+                        if (!isCurrent()) {
+                            return; // Forgotten by a refresh, stop fetching
+                        }
+                        state.items.push(...page);
+                        this.onUpdate(element);
+                    }
+                } catch (error: any) {
+                    state.error = error.message;
+                }
+                finish();
+                if (isCurrent()) {
+                    this.onUpdate(element);
+                }
+            })();
+
+            return state;
+        })();
+
+        this.loads.set(key, loadPromise);
+        this.tokens.set(key, token);
+        // Forget a load whose first page failed so expanding the node again retries it
+        loadPromise.catch(() => {
+            if (isCurrent()) {
+                this.drop(key);
             }
+        });
+        return loadPromise;
+    }
+
+    async get<T>(portalDetails: Portal, cacheKey: string): Promise<PagedLoad<T> | undefined> {
+        const load = this.loads.get(`${getPortalIdentity(portalDetails)}:${cacheKey}`);
+        if (load) {
+            return load;
         }
-        return allLogSources.sort((a, b) => a.name.localeCompare(b.name));
-    } catch (error) {
-        console.error("Error fetching remote LogSources:", error);
-        return [];
+        const cached = this.cache.get<T>(portalDetails, cacheKey);
+        return cached && { items: cached.items, done: true, fetchedAt: cached.fetchedAt };
     }
 }
 
-async function getRemoteAppliesToFunctions(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal): Promise<AppliesToFunction[]> {
-    let allAppliesToFunctions: AppliesToFunction[] = [];
-    let offset = 0;
-    const size = 1000;
-    let hasMore = true;
+// Appends a "Loading more…" or error item while a paged load is incomplete
+function withLoadStatus(items: vscode.TreeItem[], load: PagedLoad<any>): vscode.TreeItem[] {
+    if (load.error) {
+        return [...items, createErrorItem(`Stopped after ${load.items.length} items: ${load.error}`)];
+    }
+    if (!load.done) {
+        const loadingItem = new vscode.TreeItem('Loading more…', vscode.TreeItemCollapsibleState.None);
+        loadingItem.description = load.total !== undefined ? `${load.items.length} of ${load.total}` : `${load.items.length} loaded`;
+        loadingItem.iconPath = new vscode.ThemeIcon('loading~spin');
+        return [...items, loadingItem];
+    }
+    return items;
+}
 
-    try {
-        while (hasMore) {
-            const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/setting/functions', null, { size: String(size), offset: String(offset), fields: 'id,name' });
-            if (response && response.items) {
-                allAppliesToFunctions = allAppliesToFunctions.concat(response.items);
-                if (response.items.length < size) {
-                    hasMore = false;
-                } else {
-                    offset += size;
-                }
-            } else {
-                hasMore = false;
-            }
-        }
-        return allAppliesToFunctions.sort((a, b) => a.name.localeCompare(b.name));
-    } catch (error) {
-        console.error("Error fetching remote AppliesToFunctions:", error);
-        return [];
+async function findModuleByName(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, portalDetails: Portal, moduleType: string, moduleName: string): Promise<any | undefined> {
+    const moduleTypeInfo = MODULE_TYPES[moduleType];
+    const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', moduleTypeInfo.resourcePath, null, { size: '1', fields: 'id,name', filter: `name:"${moduleName}"` });
+    const match = response?.items?.[0];
+    if (!match) {
+        return undefined;
     }
+    return makeApiRequest(context, outputChannel, portalDetails, 'GET', `${moduleTypeInfo.resourcePath}/${match.id}`, null, { format: 'json' });
+}
+
+// Shown in place of a branch's children when loading them fails, so the failure isn't mistaken for an empty list
+function createErrorItem(message: string): vscode.TreeItem {
+    const item = new vscode.TreeItem('Failed to load', vscode.TreeItemCollapsibleState.None);
+    item.description = message;
+    item.tooltip = message;
+    item.iconPath = new vscode.ThemeIcon('error');
+    return item;
 }
 
 // New TreeDataProvider for Settings
@@ -485,7 +857,7 @@ class SettingsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
     }
 
     async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
-        const credsPath = this.context.workspaceState.get<string>('logicmonitor.credentialsPath');
+        const credsPath = getSetting<string>(this.context, 'logicmonitor.credentialsPath');
         if (element) {
             return Promise.resolve([]);
         } else {
@@ -501,13 +873,21 @@ class SettingsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
             }
             credsItem.command = { command: 'logicmonitor.setCredentials', title: 'Set Credentials' };
 
-            const debugEnabled = this.context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
+            const storedPortalNames = Object.keys(await getStoredPortals(this.context));
+            const portalsItem = new vscode.TreeItem('Stored Portals', vscode.TreeItemCollapsibleState.None);
+            portalsItem.label = `Stored Portals: ${storedPortalNames.length}`;
+            portalsItem.description = storedPortalNames.length > 0 ? storedPortalNames.join(', ') : 'Click to add a portal';
+            portalsItem.tooltip = 'Portals kept in VS Code secret storage';
+            portalsItem.iconPath = new vscode.ThemeIcon('key');
+            portalsItem.command = { command: 'logicmonitor.addPortal', title: 'Add Portal' };
+
+            const debugEnabled = getSetting<boolean>(this.context, 'logicmonitor.debugEnabled', false);
             const debugItem = new vscode.TreeItem('Debug', vscode.TreeItemCollapsibleState.None);
             debugItem.label = `Debug: ${debugEnabled ? 'On' : 'Off'}`;
             debugItem.iconPath = new vscode.ThemeIcon(debugEnabled ? 'check' : 'empty');
             debugItem.command = { command: 'logicmonitor.toggleDebug', title: 'Toggle Debug' };
 
-            return Promise.resolve([credsItem, debugItem]);
+            return Promise.resolve([credsItem, portalsItem, debugItem]);
         }
     }
 }
@@ -531,155 +911,192 @@ class CurrentSelectionsProvider implements vscode.TreeDataProvider<vscode.TreeIt
         if (element) {
             return Promise.resolve([]);
         } else {
-            const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
-            const activeCollectorId = this.context.workspaceState.get<number>('logicmonitor.activeCollectorId');
-            const activeCollectorDescription = this.context.workspaceState.get<string>('logicmonitor.activeCollectorDescription');
-            const activeDeviceId = this.context.workspaceState.get<number>('logicmonitor.activeDeviceId');
-            const activeDeviceDisplayName = this.context.workspaceState.get<string>('logicmonitor.activeDeviceDisplayName');
-            const activeDeviceHostname = this.context.workspaceState.get<string>('logicmonitor.activeDeviceHostname');
+            const activePortal = getSettingWithSource<string>(this.context, 'logicmonitor.activePortal');
+            const activeCollectorId = getSettingWithSource<number>(this.context, 'logicmonitor.activeCollectorId');
+            const activeCollectorDescription = getSetting<string>(this.context, 'logicmonitor.activeCollectorDescription');
+            const activeDeviceId = getSettingWithSource<number>(this.context, 'logicmonitor.activeDeviceId');
+            const activeDeviceDisplayName = getSetting<string>(this.context, 'logicmonitor.activeDeviceDisplayName');
+            const activeDeviceHostname = getSetting<string>(this.context, 'logicmonitor.activeDeviceHostname');
+            const debugEnabled = getSettingWithSource<boolean>(this.context, 'logicmonitor.debugEnabled');
+            const credsPath = getSettingWithSource<string>(this.context, 'logicmonitor.credentialsPath');
 
             const currentSelections: vscode.TreeItem[] = [];
 
-            if (activePortalName) {
-                currentSelections.push(new vscode.TreeItem(`Portal: ${activePortalName}`));
+            if (activePortal.value) {
+                currentSelections.push(createSelectionItem(`Portal: ${activePortal.value}`, activePortal.source));
             }
-            if (activeCollectorId) {
-                currentSelections.push(new vscode.TreeItem(`Collector: ${activeCollectorDescription} (${activeCollectorId})`));
+            if (activeCollectorId.value) {
+                currentSelections.push(createSelectionItem(`Collector: ${activeCollectorDescription} (${activeCollectorId.value})`, activeCollectorId.source));
             }
-            if (activeDeviceId && activeDeviceDisplayName && activeDeviceHostname) {
-                currentSelections.push(new vscode.TreeItem(`Device: ${activeDeviceDisplayName} (${activeDeviceHostname}:${activeDeviceId})`));
+            if (activeDeviceId.value && activeDeviceDisplayName && activeDeviceHostname) {
+                currentSelections.push(createSelectionItem(`Device: ${activeDeviceDisplayName} (${activeDeviceHostname}:${activeDeviceId.value})`, activeDeviceId.source));
+            }
+            const activeInstance = getSettingWithSource<ActiveInstance>(this.context, 'logicmonitor.activeInstance');
+            if (activeInstance.value) {
+                currentSelections.push(createSelectionItem(`Instance: ${activeInstance.value.displayName} (${activeInstance.value.wildValue}) of ${activeInstance.value.dataSourceName}`, activeInstance.source));
+            }
+            // Only worth listing here when shared, otherwise they're just the Settings view's values
+            if (credsPath.source === 'workspaceConfig') {
+                currentSelections.push(createSelectionItem(`Credentials: ${path.basename(credsPath.value!)}`, credsPath.source));
+            }
+            if (debugEnabled.source === 'workspaceConfig') {
+                currentSelections.push(createSelectionItem(`Debug: ${debugEnabled.value ? 'On' : 'Off'}`, debugEnabled.source));
             }
             return Promise.resolve(currentSelections);
         }
     }
 }
 
+function createSelectionItem(label: string, source: SettingSource): vscode.TreeItem {
+    const item = new vscode.TreeItem(label);
+    item.description = source === 'workspaceConfig' ? WORKSPACE_CONFIG_FILE : 'this workspace';
+    item.tooltip = source === 'workspaceConfig'
+        ? `Shared through ${WORKSPACE_CONFIG_FILE}`
+        : 'Selected in this workspace only. Run "Save Selections to .lmcoretool.json" to share it.';
+    return item;
+}
+
 // New TreeDataProvider for Navigation (Portals, Groups, Collectors, Devices)
+type NavigationMode = 'collectors' | 'deviceGroups';
+
+const ROOT_DEVICE_GROUP_ID = 1;
+
 class NavigationProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    constructor(private context: vscode.ExtensionContext, private outputChannel: vscode.OutputChannel) { } 
+    private pagedLoader: PagedLoader;
+
+    constructor(private context: vscode.ExtensionContext, private outputChannel: vscode.OutputChannel, private cache: ResourceCache) {
+        this.pagedLoader = new PagedLoader(cache, element => this._onDidChangeTreeData.fire(element));
+    }
 
     refresh(): void {
+        this.pagedLoader.clear();
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
-        return element;
+    // Drops the cached collectors and devices of a portal and reloads its node
+    async refreshPortal(portalName: string): Promise<void> {
+        const portalDetails = await this.getPortalDetails(portalName);
+        if (portalDetails) {
+            this.cache.invalidate(portalDetails, 'navigation/');
+            this.pagedLoader.forget(portalDetails, 'navigation/');
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
     }
 
     async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        try {
+            return await this.loadChildren(element);
+        } catch (error: any) {
+            return [createErrorItem(error.message)];
+        }
+    }
+
+    private async getPortalDetails(portalName: string): Promise<Portal | undefined> {
+        return (await getCredentials(this.context))?.find(([name, _]) => name === portalName)?.[1];
+    }
+
+    private async getCollectorTree(portalName: string, portalDetails: Portal): Promise<{ groups: CollectorGroup[], collectors: Collector[] }> {
+        const groups = await this.cache.getOrFetch(portalDetails, 'navigation/collectorGroups', () =>
+            fetchAllPages<CollectorGroup>(this.context, this.outputChannel, portalDetails, '/setting/collector/groups', { fields: 'id,name' }));
+        const collectors = await this.cache.getOrFetch(portalDetails, 'navigation/collectors', () =>
+            fetchAllPages<Collector>(this.context, this.outputChannel, portalDetails, '/setting/collector/collectors', { fields: 'id,description,collectorGroupId' }));
+        return { groups: groups.items, collectors: collectors.items };
+    }
+
+    private createCollectorItem(portalName: string, collector: Collector): vscode.TreeItem {
+        const item = new vscode.TreeItem(`${collector.description} (${collector.id})`);
+        item.id = `collector-${portalName}:${collector.id}`;
+        item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed; // Make collectors collapsible
+        return item;
+    }
+
+    private async loadChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
         if (element) {
-            // Handle expanding Portals, Collector Groups, and Collectors
+            // Handle expanding Portals, Collector Groups, and Collectors. Ids below the portal carry the
+            // portal name so several portals can be expanded at once.
+            const groupMatch = element.id?.match(/^group-(.*):(\d+|ungrouped)$/);
+            const collectorMatch = element.id?.match(/^collector-(.*):(\d+)$/);
+            const deviceGroupMatch = element.id?.match(/^devicegroup-(.*):(\d+)$/);
             if (element.id === 'portals-root') { // New root for portals
                 const portals = await getCredentials(this.context);
                 if (portals) {
-                    return portals.map(([name, _]) => {
+                    return portals.map(([name, portalDetails]) => {
                         const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.Collapsed);
                         item.id = `portal-${name}`;
+                        item.contextValue = 'portal';
+                        item.description = describeRefresh(this.cache.get(portalDetails, this.getPortalRefreshKey())?.fetchedAt);
                         return item;
                     });
                 }
             } else if (element.id?.startsWith('portal-')) {
                 const portalName = element.id.replace('portal-', '');
-                const portals = await getCredentials(this.context);
-                const selectedPortal = portals?.find(([name, _]) => name === portalName);
-                if (selectedPortal) {
-                    const [_, portalDetails] = selectedPortal;
-                    const groups = await getCollectorGroups(this.context, this.outputChannel, portalDetails);
-                    const collectors = await getCollectors(this.context, this.outputChannel, portalDetails);
-
-                    const groupedCollectors: { [key: number]: Collector[] } = {};
-                    const ungroupedCollectors: Collector[] = [];
-
-                    collectors.forEach(collector => {
-                        if (collector.collectorGroupId && groups.some(group => group.id === collector.collectorGroupId)) {
-                            if (!groupedCollectors[collector.collectorGroupId]) {
-                                groupedCollectors[collector.collectorGroupId] = [];
-                            }
-                            groupedCollectors[collector.collectorGroupId].push(collector);
-                        } else {
-                            ungroupedCollectors.push(collector);
-                        }
-                    });
+                const portalDetails = await this.getPortalDetails(portalName);
+                if (portalDetails && this.getMode() === 'deviceGroups') {
+                    const children = await this.getDeviceGroupChildren(element, portalName, portalDetails, ROOT_DEVICE_GROUP_ID);
+                    this.showRefreshTime(element, this.cache.get(portalDetails, this.getPortalRefreshKey())?.fetchedAt);
+                    return children;
+                } else if (portalDetails) {
+                    const { groups, collectors } = await this.getCollectorTree(portalName, portalDetails);
+                    this.showRefreshTime(element, this.cache.get(portalDetails, this.getPortalRefreshKey())?.fetchedAt);
 
                     const treeItems: vscode.TreeItem[] = [];
 
                     groups.forEach(group => {
                         const groupItem = new vscode.TreeItem(group.name, vscode.TreeItemCollapsibleState.Collapsed);
-                        groupItem.id = `group-${group.id}`;
+                        groupItem.id = `group-${portalName}:${group.id}`;
                         treeItems.push(groupItem);
                     });
 
-                    if (ungroupedCollectors.length > 0) {
+                    if (collectors.some(collector => !groups.some(group => group.id === collector.collectorGroupId))) {
                         const ungroupedItem = new vscode.TreeItem('Ungrouped', vscode.TreeItemCollapsibleState.Collapsed);
-                        ungroupedItem.id = 'group-ungrouped';
+                        ungroupedItem.id = `group-${portalName}:ungrouped`;
                         treeItems.push(ungroupedItem);
                     }
-                    
-                    // Store the grouped collectors for later retrieval by getChildren
-                    this.context.workspaceState.update('logicmonitor.groupedCollectors', { groups, groupedCollectors, ungroupedCollectors });
-                    this.context.workspaceState.update('logicmonitor.currentPortalDetails', portalDetails); // Store current portal details
 
                     return treeItems;
                 }
-            } else if (element.id?.startsWith('group-')) {
-                const storedData = this.context.workspaceState.get<{ groups: CollectorGroup[], groupedCollectors: { [key: number]: Collector[] }, ungroupedCollectors: Collector[] }>('logicmonitor.groupedCollectors');
-                if (storedData) {
-                    const groupId = element.id.replace('group-', '');
-                    if (groupId === 'ungrouped') {
-                        return storedData.ungroupedCollectors.map(collector => {
-                            const item = new vscode.TreeItem(`${collector.description} (${collector.id})`);
-                            item.id = `collector-${collector.id}`;
-                            item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed; // Make collectors collapsible
-                            return item;
-                        });
-                    } else {
-                        const collectorsInGroup = storedData.groupedCollectors[Number(groupId)];
-                        if (collectorsInGroup) {
-                            return collectorsInGroup.map(collector => {
-                                const item = new vscode.TreeItem(`${collector.description} (${collector.id})`);
-                                item.id = `collector-${collector.id}`;
-                                item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed; // Make collectors collapsible
-                                return item;
-                            });
-                        }
-                    }
+            } else if (groupMatch) {
+                const [, portalName, groupId] = groupMatch;
+                const portalDetails = await this.getPortalDetails(portalName);
+                if (portalDetails) {
+                    const { groups, collectors } = await this.getCollectorTree(portalName, portalDetails);
+                    const collectorsInGroup = groupId === 'ungrouped'
+                        ? collectors.filter(collector => !groups.some(group => group.id === collector.collectorGroupId))
+                        : collectors.filter(collector => collector.collectorGroupId === Number(groupId));
+                    return collectorsInGroup.map(collector => this.createCollectorItem(portalName, collector));
                 }
                 return Promise.resolve([]);
-            } else if (element.id?.startsWith('collector-')) { // Handle expanding a collector
-                const collectorId = Number(element.id.replace('collector-', ''));
-                const portalDetails = this.context.workspaceState.get<Portal>('logicmonitor.currentPortalDetails'); // Retrieve current portal details
+            } else if (collectorMatch) { // Handle expanding a collector
+                const [, portalName, collectorIdText] = collectorMatch;
+                const collectorId = Number(collectorIdText);
+                const portalDetails = await this.getPortalDetails(portalName);
                 if (portalDetails) {
-                    // Get collector description from stored data
-                    const storedData = this.context.workspaceState.get<{ groups: CollectorGroup[], groupedCollectors: { [key: number]: Collector[] }, ungroupedCollectors: Collector[] }>('logicmonitor.groupedCollectors');
-                    let collectorDescription: string | undefined;
-                    if (storedData) {
-                        // Check grouped collectors
-                        for (const groupId in storedData.groupedCollectors) {
-                            const foundCollector = storedData.groupedCollectors[groupId].find(col => col.id === collectorId);
-                            if (foundCollector) {
-                                collectorDescription = foundCollector.description;
-                                break;
-                            }
-                        }
-                        // Check ungrouped collectors if not found in grouped
-                        if (!collectorDescription) {
-                            const foundCollector = storedData.ungroupedCollectors.find(col => col.id === collectorId);
-                            if (foundCollector) {
-                                collectorDescription = foundCollector.description;
-                            }
-                        }
-                    }
+                    const { collectors } = await this.getCollectorTree(portalName, portalDetails);
+                    const collectorDescription = collectors.find(collector => collector.id === collectorId)?.description;
 
-                    const devices = await getDevices(this.context, this.outputChannel, portalDetails, collectorId);
-                    return devices.map(device => {
+                    // Collectors can have thousands of devices, so show them as each page arrives
+                    const load = await this.pagedLoader.load<Device>(portalDetails, `navigation/devices/${collectorId}`, element, onProgress =>
+                        paginate<Device>(this.context, this.outputChannel, portalDetails, '/device/devices', { fields: 'id,name,displayName', filter: `preferredCollectorId:${collectorId}`, sort: '+displayName' }, onProgress));
+                    return withLoadStatus(load.items.map(device => {
                         const item = new vscode.TreeItem(`${device.displayName} (${device.name}:${device.id})`);
-                        item.id = `device-${device.id}`;
-                        item.command = { command: 'logicmonitor.setActiveDevice', title: 'Set Active Device', arguments: [portalDetails.COMPANY_NAME, collectorId, collectorDescription, device.id, device.displayName, device.name] };
+                        item.id = `device-${portalName}:${device.id}`;
+                        item.command = { command: 'logicmonitor.setActiveDevice', title: 'Set Active Device', arguments: [portalName, collectorId, collectorDescription, device.id, device.displayName, device.name] };
                         return item;
-                    });
+                    }), load);
+                }
+                return Promise.resolve([]);
+            } else if (deviceGroupMatch) {
+                const [, portalName, groupId] = deviceGroupMatch;
+                const portalDetails = await this.getPortalDetails(portalName);
+                if (portalDetails) {
+                    return this.getDeviceGroupChildren(element, portalName, portalDetails, Number(groupId));
                 }
                 return Promise.resolve([]);
             }
@@ -691,6 +1108,259 @@ class NavigationProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
             return Promise.resolve([portalsRootItem]);
         }
     }
+
+    private getMode(): NavigationMode {
+        return this.context.workspaceState.get<NavigationMode>('logicmonitor.navigationMode', 'collectors');
+    }
+
+    // The list whose age is shown on portal nodes in the current mode
+    private getPortalRefreshKey(): string {
+        return this.getMode() === 'deviceGroups' ? `navigation/deviceGroups/${ROOT_DEVICE_GROUP_ID}` : 'navigation/collectors';
+    }
+
+    // Subgroups followed by the devices directly in the group. Devices are streamed like a collector's devices;
+    // their collector is looked up when one is selected since groups aren't tied to a collector.
+    private async getDeviceGroupChildren(element: vscode.TreeItem, portalName: string, portalDetails: Portal, groupId: number): Promise<vscode.TreeItem[]> {
+        const subgroups = await this.cache.getOrFetch(portalDetails, `navigation/deviceGroups/${groupId}`, () =>
+            fetchAllPages<DeviceGroup>(this.context, this.outputChannel, portalDetails, '/device/groups', { fields: 'id,name,numOfHosts', filter: `parentId:${groupId}`, sort: '+name' }));
+        const groupItems = subgroups.items.map(group => {
+            const item = new vscode.TreeItem(group.name, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `devicegroup-${portalName}:${group.id}`;
+            item.description = group.numOfHosts !== undefined ? `${group.numOfHosts} devices` : undefined;
+            return item;
+        });
+
+        const load = await this.pagedLoader.load<Device>(portalDetails, `navigation/groupDevices/${groupId}`, element, onProgress =>
+            paginate<Device>(this.context, this.outputChannel, portalDetails, `/device/groups/${groupId}/devices`, { fields: 'id,name,displayName,preferredCollectorId', sort: '+displayName' }, onProgress));
+        const { collectors } = await this.getCollectorTree(portalName, portalDetails);
+        const deviceItems = load.items.map(device => {
+            const item = new vscode.TreeItem(`${device.displayName} (${device.name}:${device.id})`);
+            item.id = `device-${portalName}:${groupId}:${device.id}`; // A device can be in several groups
+            const collectorDescription = collectors.find(collector => collector.id === device.preferredCollectorId)?.description;
+            item.command = { command: 'logicmonitor.setActiveDevice', title: 'Set Active Device', arguments: [portalName, device.preferredCollectorId, collectorDescription, device.id, device.displayName, device.name] };
+            return item;
+        });
+
+        return withLoadStatus([...groupItems, ...deviceItems], load);
+    }
+
+    // Updates the "refreshed" description of a node whose list was just (re)loaded
+    private showRefreshTime(element: vscode.TreeItem, fetchedAt: number | undefined): void {
+        const description = describeRefresh(fetchedAt);
+        if (element.description !== description) {
+            element.description = description;
+            this._onDidChangeTreeData.fire(element);
+        }
+    }
+}
+
+const INSTANCE_PROPERTY_FIELDS = 'wildValue,wildValue2,displayName,description,systemProperties,autoProperties,customProperties';
+
+// The instanceProps the collector binds when it runs a script for one instance: the instance's wildvalues,
+// alias and description plus all of its properties
+async function getInstanceProperties(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    portalDetails: Portal,
+    deviceId: number,
+    instance: ActiveInstance
+): Promise<{ [name: string]: string }> {
+    const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', `/device/devices/${deviceId}/devicedatasources/${instance.deviceDataSourceId}/instances/${instance.id}`, null, {
+        fields: INSTANCE_PROPERTY_FIELDS
+    });
+    return toInstanceProps(response, instance);
+}
+
+// The datasourceinstanceProps the collector binds for a BATCHSCRIPT collection: the device's instances of the
+// DataSource keyed by wildvalue, each with the same properties instanceProps has for a single instance
+async function getBatchInstanceProperties(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    portalDetails: Portal,
+    deviceId: number,
+    dataSourceId: number | string
+): Promise<{ [wildValue: string]: { [name: string]: string } }> {
+    const [deviceDataSource] = await fetchAllPages<DeviceDataSource>(context, outputChannel, portalDetails, `/device/devices/${deviceId}/devicedatasources`, {
+        fields: 'id,dataSourceId',
+        filter: `dataSourceId:${dataSourceId}`
+    });
+    const batchProps: { [wildValue: string]: { [name: string]: string } } = {};
+    if (!deviceDataSource) {
+        return batchProps; // The DataSource doesn't apply to the device, so the collector would have no instances either
+    }
+    const instances = await fetchAllPages<any>(context, outputChannel, portalDetails, `/device/devices/${deviceId}/devicedatasources/${deviceDataSource.id}/instances`, {
+        fields: INSTANCE_PROPERTY_FIELDS
+    });
+    instances.forEach(instance => { batchProps[instance.wildValue] = toInstanceProps(instance); });
+    return batchProps;
+}
+
+function toInstanceProps(response: any, instance?: ActiveInstance): { [name: string]: string } {
+    const instanceProps: { [name: string]: string } = {
+        wildvalue: response?.wildValue ?? instance?.wildValue ?? '',
+        wildvalue2: response?.wildValue2 || '',
+        wildalias: response?.displayName ?? instance?.displayName ?? '',
+        description: response?.description || ''
+    };
+    const properties: { name: string, value: string }[] = [
+        ...(response?.systemProperties || []),
+        ...(response?.autoProperties || []),
+        ...(response?.customProperties || [])
+    ];
+    properties.forEach(property => { instanceProps[property.name] = property.value; });
+    return instanceProps;
+}
+
+interface TokenSubstitution {
+    script: string;
+    resolved: string[];
+    missing: string[];
+    masked: string[]; // Credential properties the API only returns as asterisks
+    noInstance: string[]; // Instance tokens left over because no instance context was applied
+}
+
+// Tokens LM substitutes that aren't simply the name of a device property
+const TOKEN_PROPERTY_ALIASES: { [token: string]: string } = {
+    HOSTNAME: 'system.hostname',
+    DISPLAYNAME: 'system.displayname'
+};
+
+// Replaces ##PROPERTY.NAME## tokens with the device's property values, as LM does before a script runs
+async function substituteDeviceTokens(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    portalDetails: Portal,
+    deviceId: number,
+    script: string
+): Promise<TokenSubstitution> {
+    const substitution: TokenSubstitution = { script, resolved: [], missing: [], masked: [], noInstance: [] };
+    const tokens = Array.from(new Set((script.match(/##[A-Za-z][\w.-]*##/g) || []).map(token => token.slice(2, -2))));
+    if (tokens.length === 0) {
+        return substitution;
+    }
+
+    const properties = await fetchAllPages<{ name: string, value: string }>(context, outputChannel, portalDetails, `/device/devices/${deviceId}/properties`, { fields: 'name,value' });
+    const propertyValues = new Map(properties.map(property => [property.name.toLowerCase(), property.value]));
+
+    for (const token of tokens) {
+        if (INSTANCE_TOKENS.includes(token.toUpperCase())) {
+            substitution.noInstance.push(token);
+            continue;
+        }
+        const value = propertyValues.get((TOKEN_PROPERTY_ALIASES[token.toUpperCase()] || token).toLowerCase());
+        if (value === undefined || value === '') {
+            substitution.missing.push(token);
+        } else if (/^\*+$/.test(value)) {
+            substitution.masked.push(token);
+        } else {
+            substitution.script = substitution.script.split(`##${token}##`).join(value);
+            substitution.resolved.push(token);
+        }
+    }
+    return substitution;
+}
+
+const RUN_CHOICE: vscode.MessageItem = { title: 'Run' };
+const CANCEL_CHOICE: vscode.MessageItem = { title: 'Cancel', isCloseAffordance: true };
+
+// Shows the script as it will be submitted next to the original and asks before running it. Scripts without
+// tokens run straight away; with the preview turned off, only unresolved tokens stop the run.
+async function confirmTokenSubstitution(
+    outputChannel: vscode.OutputChannel,
+    contentProvider: PortalContentProvider,
+    fileName: string,
+    originalScript: string,
+    substitution: TokenSubstitution
+): Promise<boolean> {
+    const unresolved = [...substitution.noInstance, ...substitution.missing, ...substitution.masked];
+    const previewEnabled = vscode.workspace.getConfiguration('logicmonitor').get<boolean>('previewTokenSubstitution', true);
+    if (unresolved.length === 0 && (substitution.resolved.length === 0 || !previewEnabled)) {
+        return true;
+    }
+
+    if (unresolved.length > 0) {
+        outputChannel.appendLine(`\n--- Unresolved Tokens ---`);
+        substitution.noInstance.forEach(token => outputChannel.appendLine(`##${token}##: instance token, no active instance selected`));
+        substitution.missing.forEach(token => outputChannel.appendLine(`##${token}##: no value on the device`));
+        substitution.masked.forEach(token => outputChannel.appendLine(`##${token}##: credential property, the API only returns it masked`));
+        outputChannel.appendLine(`--- End Unresolved Tokens ---`);
+    }
+
+    if (previewEnabled) {
+        await showDiff(
+            `${fileName}: Original ↔ As Submitted`,
+            contentProvider.setContent('original', 'preview', fileName, originalScript),
+            contentProvider.setContent('submitted', 'preview', fileName, substitution.script)
+        );
+    }
+
+    const message = unresolved.length > 0
+        ? `${unresolved.length} token(s) could not be resolved and will be sent as-is: ${unresolved.map(token => `##${token}##`).join(', ')}. Run the script anyway?`
+        : `${substitution.resolved.length} token(s) were substituted from the device's properties. Run the script?`;
+    const choice = unresolved.length > 0
+        ? await vscode.window.showWarningMessage(message, RUN_CHOICE, CANCEL_CHOICE)
+        : await vscode.window.showInformationMessage(message, RUN_CHOICE, CANCEL_CHOICE);
+    return choice === RUN_CHOICE;
+}
+
+// Submits a debug command (e.g. "!groovy hostId=123" followed by the script) to a collector and writes the
+// result to the output channel once the session completes
+async function runScriptOnCollector(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    portalDetails: Portal,
+    collectorId: number,
+    cmdline: string,
+    onOutput?: (output: string) => void // Called with the script's output once it completes
+): Promise<void> {
+    const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+
+    const resourcePath = `/debug`;
+    const queryParams = {
+        collectorId: String(collectorId)
+    };
+    const payload = {
+        cmdline
+    };
+    const url = `${getBaseUrl(portalDetails)}${resourcePath}?collectorId=${collectorId}`;
+
+    if (debugEnabled) {
+        outputChannel.appendLine(`
+--- Making Debug API Call ---`);
+        outputChannel.appendLine(`URL: ${url}`);
+        outputChannel.appendLine(`Payload: ${JSON.stringify(payload, null, 2)}`);
+    }
+
+    try {
+        const apiResponse = await makeApiRequest(context, outputChannel, portalDetails, 'POST', resourcePath, payload, queryParams);
+        if (debugEnabled) {
+            outputChannel.appendLine(`
+--- Debug API Response ---`);
+            outputChannel.appendLine(JSON.stringify(apiResponse, null, 2));
+            outputChannel.appendLine(`--- End Debug API Response ---`);
+        }
+
+        const sessionId = apiResponse.sessionId;
+        if (sessionId) {
+            vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: "LogicMonitor: Running Script",
+                cancellable: true
+            }, async (progress, token) => {
+                progress.report({ message: "Task submitted to collector..." });
+                await pollDebugSession(context, outputChannel, portalDetails, collectorId, sessionId, progress, token, onOutput);
+            });
+        } else {
+            vscode.window.showErrorMessage('Failed to start debug session: No sessionId returned.');
+        }
+    } catch (error: any) {
+        outputChannel.appendLine(`
+--- Debug API Error ---`);
+        outputChannel.appendLine(`Error: ${error.message}`);
+        outputChannel.appendLine(`--- End Debug API Error ---`);
+        vscode.window.showErrorMessage(`Debug API call failed: ${error.message}`);
+    }
+    outputChannel.show();
 }
 
 async function pollDebugSession(
@@ -699,15 +1369,33 @@ async function pollDebugSession(
     portalDetails: Portal,
     collectorId: number,
     sessionId: string,
-    progress: vscode.Progress<{ message?: string; increment?: number }>
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken,
+    onOutput?: (output: string) => void
 ): Promise<void> {
-    const maxAttempts = 40; // 2 minutes / 3 seconds per attempt = 40 attempts
-    const delay = 3000; // 3 seconds
-    const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
+    const configuration = vscode.workspace.getConfiguration('logicmonitor');
+    const timeoutSeconds = configuration.get<number>('debugTimeoutSeconds', 120);
+    const intervalSeconds = Math.max(configuration.get<number>('debugPollIntervalSeconds', 3), 1);
+    const maxAttempts = Math.max(Math.ceil(timeoutSeconds / intervalSeconds), 1);
+    const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
 
     for (let i = 0; i < maxAttempts; i++) {
-        progress.report({ message: `Awaiting completion... (${i + 1}/${maxAttempts})`, increment: 100 / maxAttempts });
-        await new Promise(resolve => setTimeout(resolve, delay));
+        progress.report({ message: `Awaiting completion... (${Math.min((i + 1) * intervalSeconds, timeoutSeconds)}s of ${timeoutSeconds}s)`, increment: 100 / maxAttempts });
+        await new Promise<void>(resolve => {
+            const timer = setTimeout(() => {
+                cancellationListener.dispose();
+                resolve();
+            }, intervalSeconds * 1000);
+            const cancellationListener = token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                cancellationListener.dispose();
+                resolve();
+            });
+        });
+        if (token.isCancellationRequested) {
+            await cancelDebugSession(context, outputChannel, portalDetails, collectorId, sessionId);
+            return;
+        }
 
         const resourcePath = `/debug/${sessionId}`;
         const queryParams = {
@@ -748,6 +1436,7 @@ async function pollDebugSession(
                 const remainingOutput = outputLines.slice(1).join('\n');
                 // Replace \n with \r as requested. appendLine will add its own \n.
                 outputChannel.appendLine(remainingOutput.replace(/\n/g, '\r'));
+                onOutput?.(remainingOutput);
 
                 vscode.window.showInformationMessage('Debug session completed with output.');
                 return;
@@ -763,8 +1452,116 @@ async function pollDebugSession(
         }
     }
 
-    if (debugEnabled) {
-        vscode.window.showWarningMessage('Debug session timed out after 2 minutes.');
+    outputChannel.appendLine(`Debug session ${sessionId} did not complete within ${timeoutSeconds} seconds.`);
+    vscode.window.showWarningMessage(`Debug session timed out after ${timeoutSeconds} seconds. The script may still be running on the collector; increase logicmonitor.debugTimeoutSeconds for long-running scripts.`);
+}
+
+// Stops waiting for a debug session and asks the collector to abandon the task
+async function cancelDebugSession(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    portalDetails: Portal,
+    collectorId: number,
+    sessionId: string
+): Promise<void> {
+    outputChannel.appendLine(`Debug session ${sessionId} cancelled.`);
+    try {
+        await makeApiRequest(context, outputChannel, portalDetails, 'DELETE', `/debug/${sessionId}`, null, { collectorId: String(collectorId) });
+        vscode.window.showInformationMessage('Debug session cancelled.');
+    } catch (error) {
+        vscode.window.showWarningMessage('Stopped waiting for the debug session, but the collector task could not be cancelled and may still run to completion.');
+    }
+}
+
+// Writes a table of the values a collection script returned, per instance, to the output channel
+function showCollectionOutput(outputChannel: vscode.OutputChannel, definition: any, output: string, instance?: string): void {
+    const dataPoints: CollectionDataPoint[] = definition?.dataPoints || [];
+    const parsed = parseCollectionOutput(output, definition?.collectMethod || 'script', dataPoints, instance || '(device)');
+
+    outputChannel.appendLine(`\n--- Collection Output: ${definition?.name || 'DataSource'} (${parsed.format}) ---`);
+    if (parsed.values.length > 0) {
+        const rows = [['Instance', 'Key', 'Datapoint', 'Value'], ...parsed.values.map(value => [value.instance, value.key, value.dataPoint || '! no datapoint', value.value])];
+        const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+        rows.forEach((row, index) => {
+            outputChannel.appendLine(row.map((cell, column) => cell.padEnd(widths[column])).join(' | ').trimEnd());
+            if (index === 0) {
+                outputChannel.appendLine(widths.map(width => '-'.repeat(width)).join('-|-'));
+            }
+        });
+    } else {
+        outputChannel.appendLine('No values found in the output.');
+    }
+
+    const unmatched = parsed.values.filter(value => !value.dataPoint);
+    if (unmatched.length > 0) {
+        outputChannel.appendLine(`! ${unmatched.length} value(s) don't match any datapoint defined in the DataSource: ${Array.from(new Set(unmatched.map(value => value.key))).join(', ')}`);
+    }
+    parsed.invalidLines.forEach(line => outputChannel.appendLine(`! Not ${parsed.format} output: ${line}`));
+    if (parsed.missingDataPoints.length > 0) {
+        outputChannel.appendLine(`! No value for datapoint(s): ${parsed.missingDataPoints.join(', ')}`);
+    }
+    outputChannel.appendLine(`--- End Collection Output ---`);
+}
+
+// Serves read-only documents for module content that only exists in memory (e.g. fetched from a portal)
+class PortalContentProvider implements vscode.TextDocumentContentProvider {
+    static readonly scheme = 'logicmonitor';
+
+    private _onDidChange: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    private contents = new Map<string, string>();
+
+    // The file name is kept as the last path segment so VS Code picks the language from its extension
+    setContent(source: string, moduleName: string, fileName: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: PortalContentProvider.scheme, path: `/${source}/${moduleName}/${fileName}` });
+        this.contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+        return uri;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+}
+
+type ModuleSyncStatus = 'upToDate' | 'localModified' | 'remoteModified' | 'conflict' | 'error';
+
+const MODULE_SYNC_STATUS_LABELS: { [status in ModuleSyncStatus]: string } = {
+    upToDate: 'Up to date',
+    localModified: 'Locally modified',
+    remoteModified: 'Remotely modified',
+    conflict: 'Conflict',
+    error: 'Could not be checked'
+};
+
+// Decorates the Local module items (via their resourceUri) with the status found by the last sync
+class ModuleStatusDecorationProvider implements vscode.FileDecorationProvider {
+    private _onDidChangeFileDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[] | undefined> = this._onDidChangeFileDecorations.event;
+
+    private statuses = new Map<string, ModuleSyncStatus>();
+
+    setStatus(modulePath: string, status: ModuleSyncStatus): void {
+        const uri = vscode.Uri.file(modulePath);
+        this.statuses.set(uri.toString(), status);
+        this._onDidChangeFileDecorations.fire(uri);
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        const status = this.statuses.get(uri.toString());
+        switch (status) {
+            case 'localModified':
+                return new vscode.FileDecoration('M', MODULE_SYNC_STATUS_LABELS[status], new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+            case 'remoteModified':
+                return new vscode.FileDecoration('R', MODULE_SYNC_STATUS_LABELS[status], new vscode.ThemeColor('gitDecoration.untrackedResourceForeground'));
+            case 'conflict':
+                return new vscode.FileDecoration('C', MODULE_SYNC_STATUS_LABELS[status], new vscode.ThemeColor('gitDecoration.conflictingResourceForeground'));
+            case 'error':
+                return new vscode.FileDecoration('!', MODULE_SYNC_STATUS_LABELS[status], new vscode.ThemeColor('problemsErrorIcon.foreground'));
+            default:
+                return undefined;
+        }
     }
 }
 
@@ -773,17 +1570,65 @@ class ModulesProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    constructor(private context: vscode.ExtensionContext, private outputChannel: vscode.OutputChannel) { } 
+    private pagedLoader: PagedLoader;
+
+    constructor(private context: vscode.ExtensionContext, private outputChannel: vscode.OutputChannel, private cache: ResourceCache) {
+        this.pagedLoader = new PagedLoader(cache, element => this._onDidChangeTreeData.fire(element));
+    }
 
     refresh(): void {
+        this.pagedLoader.clear();
         this._onDidChangeTreeData.fire();
     }
 
+    // DataSources and instances shown in the Device Modules branch, by tree item id
+    private deviceDataSources = new Map<string, DeviceDataSource>();
+    private deviceInstances = new Map<string, ActiveInstance>();
+
+    getDeviceInstance(itemId: string) {
+        return this.deviceInstances.get(itemId);
+    }
+
+    getGrouping(moduleTypeInfo: ModuleTypeInfo): RemoteModuleGrouping {
+        const groupings = this.context.workspaceState.get<{ [remoteRootId: string]: RemoteModuleGrouping }>('logicmonitor.remoteGroupings', {});
+        const grouping = groupings[moduleTypeInfo.remoteRootId];
+        return grouping && moduleTypeInfo.remoteGroupings.includes(grouping) ? grouping : moduleTypeInfo.remoteGroupings[0];
+    }
+
+    async setGrouping(moduleTypeInfo: ModuleTypeInfo, grouping: RemoteModuleGrouping): Promise<void> {
+        const groupings = this.context.workspaceState.get<{ [remoteRootId: string]: RemoteModuleGrouping }>('logicmonitor.remoteGroupings', {});
+        await this.context.workspaceState.update('logicmonitor.remoteGroupings', { ...groupings, [moduleTypeInfo.remoteRootId]: grouping });
+        this._onDidChangeTreeData.fire();
+    }
+
+    // Drops the cached list of one module type on the active portal and reloads it
+    async refreshCategory(remoteRootId: string): Promise<void> {
+        const portalDetails = await this.getActivePortalDetails();
+        if (portalDetails) {
+            this.cache.invalidate(portalDetails, `modules/${remoteRootId}`);
+            this.pagedLoader.forget(portalDetails, `modules/${remoteRootId}`);
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    private async getActivePortalDetails(): Promise<Portal | undefined> {
+        const activePortalName = getSetting<string>(this.context, 'logicmonitor.activePortal');
+        return activePortalName ? (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1] : undefined;
+    }
+
     getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
         return element;
     }
 
     async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        try {
+            return await this.loadChildren(element);
+        } catch (error: any) {
+            return [createErrorItem(error.message)];
+        }
+    }
+
+    private async loadChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
         if (element) {
             if (element.id === 'local-modules-root') {
                 const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -833,269 +1678,248 @@ class ModulesProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
                 const lmCoreToolPath = workspaceRoot;
 
                 const manifestFiles = findManifestFiles(lmCoreToolPath);
-                const modulesInType: Manifest[] = [];
+                const modulesInType: { manifest: Manifest, modulePath: string }[] = [];
 
                 for (const manifestPath of manifestFiles) {
                     try {
                         const manifestContent = fs.readFileSync(manifestPath, 'utf-8');
                         const manifest: Manifest = JSON.parse(manifestContent);
                         if (manifest.moduleType === moduleType) {
-                            modulesInType.push(manifest);
+                            modulesInType.push({ manifest, modulePath: path.dirname(manifestPath) });
                         }
                     } catch (error) {
                         console.error(`Error reading or parsing manifest.json at ${manifestPath}:`, error);
                     }
                 }
 
-                return modulesInType.sort((a, b) => (a.displayName || a.name).localeCompare(b.displayName || b.name))
-                    .map(manifest => {
-                        const modulePath = path.join(lmCoreToolPath, manifest.name); // Assuming module directory name is the same as manifest name
+                return modulesInType.sort((a, b) => (a.manifest.displayName || a.manifest.name).localeCompare(b.manifest.displayName || b.manifest.name))
+                    .map(({ manifest, modulePath }) => {
                         const item = new vscode.TreeItem(manifest.displayName || manifest.name, vscode.TreeItemCollapsibleState.None);
                         item.id = `local-module-${manifest.moduleType}-${manifest.id || 'unknown'}`;
+                        item.contextValue = 'local-module';
+                        item.resourceUri = vscode.Uri.file(modulePath);
                         item.description = `Portal: ${manifest.portal} (Pulled: ${new Date(manifest.pullDate).toLocaleDateString()})`;
                         item.tooltip = `ID: ${manifest.id || 'unknown'}\nPortal: ${manifest.portal}\nPulled: ${new Date(manifest.pullDate).toLocaleString()}`;
                         item.command = { command: 'logicmonitor.openLocalModule', title: 'Open Local Module', arguments: [modulePath] };
                         return item;
                     });
             } else if (element.id === 'remote-modules-root') {
-                const dataSourcesRoot = new vscode.TreeItem('DataSources', vscode.TreeItemCollapsibleState.Collapsed);
-                dataSourcesRoot.id = 'remote-data-sources';
-                const propertySourcesRoot = new vscode.TreeItem('PropertySources', vscode.TreeItemCollapsibleState.Collapsed);
-                propertySourcesRoot.id = 'remote-property-sources';
-                const eventSourcesRoot = new vscode.TreeItem('EventSources', vscode.TreeItemCollapsibleState.Collapsed);
-                eventSourcesRoot.id = 'remote-event-sources';
-                const configSourcesRoot = new vscode.TreeItem('ConfigSources', vscode.TreeItemCollapsibleState.Collapsed);
-                configSourcesRoot.id = 'remote-config-sources';
-                const topologySourcesRoot = new vscode.TreeItem('TopologySources', vscode.TreeItemCollapsibleState.Collapsed);
-                topologySourcesRoot.id = 'remote-topology-sources';
-                const logSourcesRoot = new vscode.TreeItem('LogSources', vscode.TreeItemCollapsibleState.Collapsed);
-                logSourcesRoot.id = 'remote-log-sources';
-                const appliesToFunctionsRoot = new vscode.TreeItem('AppliesTo Functions', vscode.TreeItemCollapsibleState.Collapsed);
-                appliesToFunctionsRoot.id = 'remote-applies-to-functions';
-                return Promise.resolve([dataSourcesRoot, propertySourcesRoot, eventSourcesRoot, configSourcesRoot, topologySourcesRoot, logSourcesRoot, appliesToFunctionsRoot]);
-            } else if (element.id === 'remote-data-sources') {
-                const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
-                if (!activePortalName) {
-                    return Promise.resolve([new vscode.TreeItem('Select a portal to view remote datasources')]);
-                }
-                const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
-                if (!portalDetails) {
-                    return Promise.resolve([new vscode.TreeItem('Portal details not found')]);
-                }
-                const remoteDataSources = await getRemoteDataSources(this.context, this.outputChannel, portalDetails);
-                this.context.workspaceState.update('logicmonitor.remoteDataSources', remoteDataSources);
-
-                const groups = new Set(remoteDataSources.map(ds => ds.displayName.charAt(0).toUpperCase()));
-                return Array.from(groups).sort().map(group => {
-                    const item = new vscode.TreeItem(group, vscode.TreeItemCollapsibleState.Collapsed);
-                    item.id = `datasource-group-${group}`;
-                    return item;
-                });
-            } else if (element.id?.startsWith('datasource-group-')) {
-                const group = element.id.replace('datasource-group-', '');
-                const remoteDataSources = this.context.workspaceState.get<DataSource[]>('logicmonitor.remoteDataSources') || [];
-                return remoteDataSources
-                    .filter(ds => ds.displayName.charAt(0).toUpperCase() === group)
-                    .map(dataSource => {
-                        const item = new vscode.TreeItem(`${dataSource.displayName} (${dataSource.name})`, vscode.TreeItemCollapsibleState.None);
-                        item.id = `remote-datasource-${dataSource.id}`;
-                        item.contextValue = 'remote-datasource';
-                        item.command = { command: 'logicmonitor.pullDataSource', title: 'Pull DataSource', arguments: [dataSource] };
-                        return item;
-                    });
-            } else if (element.id === 'remote-property-sources') {
-                const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
-                if (!activePortalName) {
-                    return Promise.resolve([new vscode.TreeItem('Select a portal to view remote propertysources')]);
-                }
-                const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
-                if (!portalDetails) {
-                    return Promise.resolve([new vscode.TreeItem('Portal details not found')]);
-                }
-                const remotePropertySources = await getRemotePropertySources(this.context, this.outputChannel, portalDetails);
-                this.context.workspaceState.update('logicmonitor.remotePropertySources', remotePropertySources);
-
-                const groups = new Set(remotePropertySources.map(ps => ps.name.charAt(0).toUpperCase()));
-                return Array.from(groups).sort().map(group => {
-                    const item = new vscode.TreeItem(group, vscode.TreeItemCollapsibleState.Collapsed);
-                    item.id = `propertysource-group-${group}`;
-                    return item;
-                });
-            } else if (element.id?.startsWith('propertysource-group-')) {
-                const group = element.id.replace('propertysource-group-', '');
-                const remotePropertySources = this.context.workspaceState.get<PropertySource[]>('logicmonitor.remotePropertySources') || [];
-                return remotePropertySources
-                    .filter(ps => ps.name.charAt(0).toUpperCase() === group)
-                    .map(propertySource => {
-                        const item = new vscode.TreeItem(propertySource.name, vscode.TreeItemCollapsibleState.None);
-                        item.id = `remote-propertysource-${propertySource.id}`;
-                        item.contextValue = 'remote-propertysource';
-                        item.command = { command: 'logicmonitor.pullPropertySource', title: 'Pull PropertySource', arguments: [propertySource] };
-                        return item;
-                    });
-            } else if (element.id === 'remote-event-sources') {
-                const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
-                if (!activePortalName) {
-                    return Promise.resolve([new vscode.TreeItem('Select a portal to view remote eventsources')]);
-                }
-                const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
-                if (!portalDetails) {
-                    return Promise.resolve([new vscode.TreeItem('Portal details not found')]);
-                }
-                const remoteEventSources = await getRemoteEventSources(this.context, this.outputChannel, portalDetails);
-                this.context.workspaceState.update('logicmonitor.remoteEventSources', remoteEventSources);
-
-                const groups = new Set(remoteEventSources.map(es => es.name.charAt(0).toUpperCase()));
-                return Array.from(groups).sort().map(group => {
-                    const item = new vscode.TreeItem(group, vscode.TreeItemCollapsibleState.Collapsed);
-                    item.id = `eventsource-group-${group}`;
-                    return item;
+                const portalDetails = await this.getActivePortalDetails();
+                return Object.values(MODULE_TYPES).map(moduleTypeInfo => {
+                    const rootItem = new vscode.TreeItem(moduleTypeInfo.remoteRootLabel, vscode.TreeItemCollapsibleState.Collapsed);
+                    rootItem.id = moduleTypeInfo.remoteRootId;
+                    rootItem.contextValue = moduleTypeInfo.remoteGroupings.length > 1 ? 'module-category-groupable' : 'module-category';
+                    if (portalDetails) {
+                        rootItem.description = describeRefresh(this.cache.get(portalDetails, `modules/${moduleTypeInfo.remoteRootId}`)?.fetchedAt);
+                    }
+                    return rootItem;
                 });
-            } else if (element.id?.startsWith('eventsource-group-')) {
-                const group = element.id.replace('eventsource-group-', '');
-                const remoteEventSources = this.context.workspaceState.get<EventSource[]>('logicmonitor.remoteEventSources') || [];
-                return remoteEventSources
-                    .filter(es => es.name.charAt(0).toUpperCase() === group)
-                    .map(eventSource => {
-                        const item = new vscode.TreeItem(eventSource.name, vscode.TreeItemCollapsibleState.None);
-                        item.id = `remote-eventsource-${eventSource.id}`;
-                        item.contextValue = 'remote-eventsource';
-                        item.command = { command: 'logicmonitor.pullEventSource', title: 'Pull EventSource', arguments: [eventSource] };
-                        return item;
-                    });
-            } else if (element.id === 'remote-config-sources') {
-                const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
-                if (!activePortalName) {
-                    return Promise.resolve([new vscode.TreeItem('Select a portal to view remote configsources')]);
-                }
-                const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
-                if (!portalDetails) {
-                    return Promise.resolve([new vscode.TreeItem('Portal details not found')]);
-                }
-                const remoteConfigSources = await getRemoteConfigSources(this.context, this.outputChannel, portalDetails);
-                this.context.workspaceState.update('logicmonitor.remoteConfigSources', remoteConfigSources);
+            }
 
-                const groups = new Set(remoteConfigSources.map(cs => cs.name.charAt(0).toUpperCase()));
-                return Array.from(groups).sort().map(group => {
-                    const item = new vscode.TreeItem(group, vscode.TreeItemCollapsibleState.Collapsed);
-                    item.id = `configsource-group-${group}`;
-                    return item;
-                });
-            } else if (element.id?.startsWith('configsource-group-')) {
-                const group = element.id.replace('configsource-group-', '');
-                const remoteConfigSources = this.context.workspaceState.get<ConfigSource[]>('logicmonitor.remoteConfigSources') || [];
-                return remoteConfigSources
-                    .filter(cs => cs.name.charAt(0).toUpperCase() === group)
-                    .map(configSource => {
-                        const item = new vscode.TreeItem(configSource.name, vscode.TreeItemCollapsibleState.None);
-                        item.id = `remote-configsource-${configSource.id}`;
-                        item.contextValue = 'remote-configsource';
-                        item.command = { command: 'logicmonitor.pullConfigSource', title: 'Pull ConfigSource', arguments: [configSource] };
-                        return item;
-                    });
-            } else if (element.id === 'remote-topology-sources') {
-                const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
+            const remoteRoot = Object.values(MODULE_TYPES).find(moduleTypeInfo => moduleTypeInfo.remoteRootId === element.id);
+            if (remoteRoot) {
+                const activePortalName = getSetting<string>(this.context, 'logicmonitor.activePortal');
                 if (!activePortalName) {
-                    return Promise.resolve([new vscode.TreeItem('Select a portal to view remote topologysources')]);
+                    return Promise.resolve([new vscode.TreeItem(`Select a portal to view remote ${remoteRoot.remoteRootLabel.toLowerCase()}`)]);
                 }
                 const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
                 if (!portalDetails) {
                     return Promise.resolve([new vscode.TreeItem('Portal details not found')]);
                 }
-                const remoteTopologySources = await getRemoteTopologySources(this.context, this.outputChannel, portalDetails);
-                this.context.workspaceState.update('logicmonitor.remoteTopologySources', remoteTopologySources);
 
-                const groups = new Set(remoteTopologySources.map(ts => ts.name.charAt(0).toUpperCase()));
-                return Array.from(groups).sort().map(group => {
-                    const item = new vscode.TreeItem(group, vscode.TreeItemCollapsibleState.Collapsed);
-                    item.id = `topologysource-group-${group}`;
-                    return item;
-                });
-            } else if (element.id?.startsWith('topologysource-group-')) {
-                const group = element.id.replace('topologysource-group-', '');
-                const remoteTopologySources = this.context.workspaceState.get<TopologySource[]>('logicmonitor.remoteTopologySources') || [];
-                return remoteTopologySources
-                    .filter(ts => ts.name.charAt(0).toUpperCase() === group)
-                    .map(topologySource => {
-                        const item = new vscode.TreeItem(topologySource.name, vscode.TreeItemCollapsibleState.None);
-                        item.id = `remote-topologysource-${topologySource.id}`;
-                        item.contextValue = 'remote-topologysource';
-                        item.command = { command: 'logicmonitor.pullTopologySource', title: 'Pull TopologySource', arguments: [topologySource] };
-                        return item;
-                    });
-            } else if (element.id === 'remote-log-sources') {
-                const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
-                if (!activePortalName) {
-                    return Promise.resolve([new vscode.TreeItem('Select a portal to view remote logsources')]);
-                }
-                const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
-                if (!portalDetails) {
-                    return Promise.resolve([new vscode.TreeItem('Portal details not found')]);
+                const load = await this.pagedLoader.load<RemoteModule>(portalDetails, `modules/${remoteRoot.remoteRootId}`, element, onProgress =>
+                    paginate<RemoteModule>(this.context, this.outputChannel, portalDetails, remoteRoot.resourcePath, { fields: remoteRoot.remoteListFields }, onProgress));
+                const description = describeRefresh(load.fetchedAt);
+                if (element.description !== description) {
+                    element.description = description;
+                    this._onDidChangeTreeData.fire(element);
                 }
-                const remoteLogSources = await getRemoteLogSources(this.context, this.outputChannel, portalDetails);
-                this.context.workspaceState.update('logicmonitor.remoteLogSources', remoteLogSources);
 
-                const groups = new Set(remoteLogSources.map(ls => ls.name.charAt(0).toUpperCase()));
-                return Array.from(groups).sort().map(group => {
+                const grouping = this.getGrouping(remoteRoot);
+                const groups = new Set(load.items.map(module => getRemoteModuleGroup(module, grouping)));
+                return withLoadStatus(Array.from(groups).sort().map(group => {
                     const item = new vscode.TreeItem(group, vscode.TreeItemCollapsibleState.Collapsed);
-                    item.id = `logsource-group-${group}`;
+                    item.id = `${getRemoteGroupIdPrefix(remoteRoot)}${grouping}-${group}`;
                     return item;
-                });
-            } else if (element.id?.startsWith('logsource-group-')) {
-                const group = element.id.replace('logsource-group-', '');
-                const remoteLogSources = this.context.workspaceState.get<LogSource[]>('logicmonitor.remoteLogSources') || [];
-                return remoteLogSources
-                    .filter(ls => ls.name.charAt(0).toUpperCase() === group)
-                    .map(logSource => {
-                        const item = new vscode.TreeItem(logSource.name, vscode.TreeItemCollapsibleState.None);
-                        item.id = `remote-logsource-${logSource.id}`;
-                        item.contextValue = 'remote-logsource';
-                        item.command = { command: 'logicmonitor.pullLogSource', title: 'Pull LogSource', arguments: [logSource] };
-                        return item;
-                    });
-            } else if (element.id === 'remote-applies-to-functions') {
-                const activePortalName = this.context.workspaceState.get<string>('logicmonitor.activePortal');
-                if (!activePortalName) {
-                    return Promise.resolve([new vscode.TreeItem('Select a portal to view remote applies-to functions')]);
-                }
-                const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
-                if (!portalDetails) {
-                    return Promise.resolve([new vscode.TreeItem('Portal details not found')]);
-                }
-                const remoteAppliesToFunctions = await getRemoteAppliesToFunctions(this.context, this.outputChannel, portalDetails);
-                this.context.workspaceState.update('logicmonitor.remoteAppliesToFunctions', remoteAppliesToFunctions);
+                }), load);
+            }
 
-                const groups = new Set(remoteAppliesToFunctions.map(af => af.name.charAt(0).toUpperCase()));
-                return Array.from(groups).sort().map(group => {
-                    const item = new vscode.TreeItem(group, vscode.TreeItemCollapsibleState.Collapsed);
-                    item.id = `applies-to-function-group-${group}`;
-                    return item;
-                });
-            } else if (element.id?.startsWith('applies-to-function-group-')) {
-                const group = element.id.replace('applies-to-function-group-', '');
-                const remoteAppliesToFunctions = this.context.workspaceState.get<AppliesToFunction[]>('logicmonitor.remoteAppliesToFunctions') || [];
-                return remoteAppliesToFunctions
-                    .filter(af => af.name.charAt(0).toUpperCase() === group)
-                    .map(appliesToFunction => {
-                        const item = new vscode.TreeItem(appliesToFunction.name, vscode.TreeItemCollapsibleState.None);
-                        item.id = `remote-applies-to-function-${appliesToFunction.id}`;
-                        item.contextValue = 'remote-applies-to-function';
-                        item.command = { command: 'logicmonitor.pullAppliesToFunction', title: 'Pull AppliesToFunction', arguments: [appliesToFunction] };
+            const remoteGroupRoot = Object.values(MODULE_TYPES).find(moduleTypeInfo => element.id?.startsWith(getRemoteGroupIdPrefix(moduleTypeInfo)));
+            if (remoteGroupRoot && element.id) {
+                const grouping = this.getGrouping(remoteGroupRoot);
+                const group = element.id.replace(`${getRemoteGroupIdPrefix(remoteGroupRoot)}${grouping}-`, '');
+                const portalDetails = await this.getActivePortalDetails();
+                const load = portalDetails ? await this.pagedLoader.get<RemoteModule>(portalDetails, `modules/${remoteGroupRoot.remoteRootId}`) : undefined;
+                return (load?.items || [])
+                    .filter(module => getRemoteModuleGroup(module, grouping) === group)
+                    .sort((a, b) => getRemoteModuleLabel(a).localeCompare(getRemoteModuleLabel(b)))
+                    .map(module => {
+                        const item = new vscode.TreeItem(module.displayName ? `${module.displayName} (${module.name})` : module.name, vscode.TreeItemCollapsibleState.None);
+                        item.id = `${remoteGroupRoot.remoteContextValue}-${module.id}`;
+                        item.contextValue = remoteGroupRoot.remoteContextValue;
+                        item.tooltip = getRemoteModuleTooltip(module);
+                        if (grouping !== 'collectMethod' && module.collectMethod) {
+                            item.description = module.collectMethod;
+                        }
+                        item.command = { command: remoteGroupRoot.pullCommand, title: `Pull ${remoteGroupRoot.label}`, arguments: [item] };
                         return item;
                     });
             }
+            if (element.id === 'device-modules-root') {
+                return this.getDeviceDataSources();
+            }
+            if (element.id?.startsWith('device-datasource-')) {
+                return this.getDeviceDataSourceInstances(element.id);
+            }
             return Promise.resolve([]);
         } else {
             const localModulesRoot = new vscode.TreeItem('Local', vscode.TreeItemCollapsibleState.Collapsed);
             localModulesRoot.id = 'local-modules-root';
             const remoteModulesRoot = new vscode.TreeItem('Remote', vscode.TreeItemCollapsibleState.Collapsed);
             remoteModulesRoot.id = 'remote-modules-root';
-            return Promise.resolve([localModulesRoot, remoteModulesRoot]);
+            const deviceModulesRoot = new vscode.TreeItem('Device Modules', vscode.TreeItemCollapsibleState.Collapsed);
+            deviceModulesRoot.id = 'device-modules-root';
+            deviceModulesRoot.description = getSetting<string>(this.context, 'logicmonitor.activeDeviceDisplayName');
+            return Promise.resolve([localModulesRoot, remoteModulesRoot, deviceModulesRoot]);
         }
     }
-}
-
-export function activate(context: vscode.ExtensionContext) {
+
+    private async getActiveDevice(): Promise<{ portalDetails: Portal, deviceId: number } | undefined> {
+        const activePortalName = getSetting<string>(this.context, 'logicmonitor.activePortal');
+        const deviceId = getSetting<number>(this.context, 'logicmonitor.activeDeviceId');
+        if (!activePortalName || !deviceId) {
+            return undefined;
+        }
+        const portalDetails = (await getCredentials(this.context))?.find(([name, _]) => name === activePortalName)?.[1];
+        return portalDetails && { portalDetails, deviceId };
+    }
+
+    // DataSources applied to the active device. Items are keyed by DataSource id so the pull commands can use them.
+    private async getDeviceDataSources(): Promise<vscode.TreeItem[]> {
+        const activeDevice = await this.getActiveDevice();
+        if (!activeDevice) {
+            return [new vscode.TreeItem('Select a device to view the modules applied to it')];
+        }
+        const { portalDetails, deviceId } = activeDevice;
+        const deviceDataSources = await fetchAllPages<DeviceDataSource>(this.context, this.outputChannel, portalDetails, `/device/devices/${deviceId}/devicedatasources`, {
+            fields: 'id,dataSourceId,dataSourceName,dataSourceDisplayName,instanceNumber'
+        });
+        return deviceDataSources
+            .sort((a, b) => a.dataSourceDisplayName.localeCompare(b.dataSourceDisplayName))
+            .map(deviceDataSource => {
+                // Same label format as the Remote branch, which pullDataSource reads the name from
+                const item = new vscode.TreeItem(`${deviceDataSource.dataSourceDisplayName} (${deviceDataSource.dataSourceName})`, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `device-datasource-${deviceDataSource.dataSourceId}-${deviceDataSource.id}`;
+                item.contextValue = 'device-datasource';
+                item.description = deviceDataSource.instanceNumber !== undefined ? `${deviceDataSource.instanceNumber} instances` : undefined;
+                item.tooltip = `Device DataSource ID: ${deviceDataSource.id}\nDataSource ID: ${deviceDataSource.dataSourceId}`;
+                this.deviceDataSources.set(item.id, deviceDataSource);
+                return item;
+            });
+    }
+
+    private async getDeviceDataSourceInstances(itemId: string): Promise<vscode.TreeItem[]> {
+        const activeDevice = await this.getActiveDevice();
+        const deviceDataSource = this.deviceDataSources.get(itemId);
+        if (!activeDevice || !deviceDataSource) {
+            return [];
+        }
+        const { portalDetails, deviceId } = activeDevice;
+        const instances = await fetchAllPages<DeviceDataSourceInstance>(this.context, this.outputChannel, portalDetails, `/device/devices/${deviceId}/devicedatasources/${deviceDataSource.id}/instances`, {
+            fields: 'id,name,displayName,wildValue'
+        });
+        const activeInstance = getSetting<ActiveInstance>(this.context, 'logicmonitor.activeInstance');
+        return instances
+            .sort((a, b) => a.displayName.localeCompare(b.displayName))
+            .map(instance => {
+                const item = new vscode.TreeItem(instance.displayName, vscode.TreeItemCollapsibleState.None);
+                item.id = `device-instance-${instance.id}`;
+                item.contextValue = 'device-instance';
+                item.description = instance.wildValue;
+                item.tooltip = `Instance ID: ${instance.id}\nWildvalue: ${instance.wildValue}`;
+                if (activeInstance?.id === instance.id) {
+                    item.iconPath = new vscode.ThemeIcon('pass-filled');
+                    item.tooltip += '\nActive instance for running scripts';
+                }
+                this.deviceInstances.set(item.id, {
+                    id: instance.id,
+                    deviceDataSourceId: deviceDataSource.id,
+                    dataSourceId: deviceDataSource.dataSourceId,
+                    dataSourceName: deviceDataSource.dataSourceName,
+                    displayName: instance.displayName,
+                    wildValue: instance.wildValue
+                });
+                item.command = { command: 'logicmonitor.setActiveInstance', title: 'Set Active Instance', arguments: [item] };
+                return item;
+            });
+    }
+}
+
+// New TreeDataProvider for the instances found by the last Active Discovery script run
+class DiscoveryResultsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private results: ParsedDiscoveryOutput | undefined;
+    private instancesById = new Map<string, DiscoveredInstance>();
+
+    setResults(results: ParsedDiscoveryOutput | undefined): void {
+        this.results = results;
+        this.instancesById.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (!this.results) {
+            return [];
+        }
+        if (!element) {
+            const invalidLineItems = this.results.invalidLines.map(invalidLine => {
+                const item = new vscode.TreeItem(`Line ${invalidLine.line}: ${invalidLine.problem}`, vscode.TreeItemCollapsibleState.None);
+                item.description = invalidLine.text;
+                item.tooltip = invalidLine.text;
+                item.iconPath = new vscode.ThemeIcon('error');
+                return item;
+            });
+            const instanceItems = this.results.instances.map(instance => {
+                const id = `discovered-instance-${instance.line}`;
+                this.instancesById.set(id, instance);
+                const hasChildren = instance.problems.length > 0 || Object.keys(instance.properties).length > 0;
+                const item = new vscode.TreeItem(instance.wildAlias || instance.wildValue, hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+                item.id = id;
+                item.description = instance.wildValue;
+                item.tooltip = [`Wildvalue: ${instance.wildValue}`, `Wildalias: ${instance.wildAlias}`, `Description: ${instance.description}`, `Line: ${instance.line}`, ...instance.problems].join('\n');
+                item.iconPath = new vscode.ThemeIcon(instance.problems.length > 0 ? 'warning' : 'symbol-field');
+                return item;
+            });
+            return [...invalidLineItems, ...instanceItems];
+        }
+
+        const instance = element.id ? this.instancesById.get(element.id) : undefined;
+        if (!instance) {
+            return [];
+        }
+        const problemItems = instance.problems.map(problem => {
+            const item = new vscode.TreeItem(problem, vscode.TreeItemCollapsibleState.None);
+            item.iconPath = new vscode.ThemeIcon('warning');
+            return item;
+        });
+        const propertyItems = Object.entries(instance.properties).map(([name, value]) => {
+            const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.None);
+            item.description = value;
+            item.tooltip = `${name}=${value}`;
+            item.iconPath = new vscode.ThemeIcon('symbol-property');
+            return item;
+        });
+        return [...problemItems, ...propertyItems];
+    }
+}
+
+export function activate(context: vscode.ExtensionContext) {
 
     const outputChannel = vscode.window.createOutputChannel("LogicMonitor");
 
@@ -1105,12 +1929,23 @@ export function activate(context: vscode.ExtensionContext) {
     const currentSelectionsProvider = new CurrentSelectionsProvider(context, outputChannel);
     vscode.window.registerTreeDataProvider('logicmonitor-current-selections', currentSelectionsProvider);
 
-    const navigationProvider = new NavigationProvider(context, outputChannel);
+    const resourceCache = new ResourceCache(context.globalStorageUri.fsPath);
+
+    const navigationProvider = new NavigationProvider(context, outputChannel, resourceCache);
     vscode.window.registerTreeDataProvider('logicmonitor-navigation', navigationProvider);
 
-    const modulesProvider = new ModulesProvider(context, outputChannel);
+    const modulesProvider = new ModulesProvider(context, outputChannel, resourceCache);
     vscode.window.registerTreeDataProvider('logicmonitor-modules', modulesProvider);
 
+    const discoveryResultsProvider = new DiscoveryResultsProvider();
+    vscode.window.registerTreeDataProvider('logicmonitor-discovery', discoveryResultsProvider);
+
+    const portalContentProvider = new PortalContentProvider();
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(PortalContentProvider.scheme, portalContentProvider));
+
+    const moduleStatusDecorationProvider = new ModuleStatusDecorationProvider();
+    context.subscriptions.push(vscode.window.registerFileDecorationProvider(moduleStatusDecorationProvider));
+
     let lastActiveScriptEditorUri: vscode.Uri | undefined;
 
     // Initialize lastActiveScriptEditorUri on activation
@@ -1118,6 +1953,21 @@ export function activate(context: vscode.ExtensionContext) {
         lastActiveScriptEditorUri = vscode.window.activeTextEditor.document.uri;
     }
 
+    // Pick up teammates' changes to .lmcoretool.json, e.g. after a git pull
+    const workspaceConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_CONFIG_FILE}`);
+    const onWorkspaceConfigChanged = () => {
+        invalidateWorkspaceConfig();
+        settingsProvider.refresh();
+        currentSelectionsProvider.refresh();
+        navigationProvider.refresh();
+        modulesProvider.refresh();
+    };
+    workspaceConfigWatcher.onDidCreate(onWorkspaceConfigChanged);
+    workspaceConfigWatcher.onDidChange(onWorkspaceConfigChanged);
+    workspaceConfigWatcher.onDidDelete(onWorkspaceConfigChanged);
+    context.subscriptions.push(workspaceConfigWatcher);
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(onWorkspaceConfigChanged));
+
     context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
         if (editor && (editor.document.languageId === 'groovy' || editor.document.languageId === 'powershell')) {
             lastActiveScriptEditorUri = editor.document.uri;
@@ -1140,19 +1990,166 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    let addPortal = vscode.commands.registerCommand('logicmonitor.addPortal', async () => {
+        const portalName = await vscode.window.showInputBox({ prompt: 'Name for this portal (e.g. prod, sandbox)', ignoreFocusOut: true });
+        if (!portalName) {
+            return;
+        }
+        const companyName = await vscode.window.showInputBox({ prompt: 'Company name (the "portal1" in portal1.logicmonitor.com)', ignoreFocusOut: true });
+        if (!companyName) {
+            return;
+        }
+        const authType = await vscode.window.showQuickPick(
+            [
+                { label: 'LMv1', description: 'API access ID and key', authType: 'lmv1' as const },
+                { label: 'Bearer', description: 'API bearer token', authType: 'bearer' as const }
+            ],
+            { placeHolder: 'How does this portal authenticate?' }
+        );
+        if (!authType) {
+            return;
+        }
+
+        let portalDetails: Portal;
+        if (authType.authType === 'bearer') {
+            const bearerToken = await vscode.window.showInputBox({ prompt: 'API bearer token', password: true, ignoreFocusOut: true });
+            if (!bearerToken) {
+                return;
+            }
+            portalDetails = { AUTH_TYPE: 'bearer', BEARER_TOKEN: bearerToken, COMPANY_NAME: companyName };
+        } else {
+            const accessId = await vscode.window.showInputBox({ prompt: 'API access ID', ignoreFocusOut: true });
+            if (!accessId) {
+                return;
+            }
+            const accessKey = await vscode.window.showInputBox({ prompt: 'API access key', password: true, ignoreFocusOut: true });
+            if (!accessKey) {
+                return;
+            }
+            portalDetails = { AUTH_TYPE: 'lmv1', API_ACCESS_ID: accessId, API_ACCESS_KEY: accessKey, COMPANY_NAME: companyName };
+        }
+
+        const baseUrl = await vscode.window.showInputBox({
+            prompt: 'Base URL (optional), e.g. for a GovCloud portal, a reverse proxy or a local stub',
+            placeHolder: `https://${companyName}.logicmonitor.com/santaba/rest`,
+            ignoreFocusOut: true,
+            validateInput: value => !value || /^https?:\/\/\S+$/.test(value) ? undefined : 'Enter an http:// or https:// URL, or leave empty for the default'
+        });
+        if (baseUrl === undefined) {
+            return;
+        }
+        if (baseUrl) {
+            portalDetails.BASE_URL = baseUrl;
+        }
+        const caCertPath = await vscode.window.showInputBox({
+            prompt: 'Path to a CA certificate PEM file to trust for this portal (optional)',
+            ignoreFocusOut: true,
+            validateInput: value => !value || fs.existsSync(value) ? undefined : 'File not found'
+        });
+        if (caCertPath === undefined) {
+            return;
+        }
+        if (caCertPath) {
+            portalDetails.CA_CERT_PATH = caCertPath;
+        }
+
+        const storedPortals = await getStoredPortals(context);
+        // Re-adding a portal may point its name at another company, so nothing cached for it before is kept
+        if (storedPortals[portalName]) {
+            resourceCache.invalidate(storedPortals[portalName]);
+        }
+        resourceCache.invalidate(portalDetails);
+        storedPortals[portalName] = portalDetails;
+        await storePortals(context, storedPortals);
+
+        vscode.window.showInformationMessage(`Portal '${portalName}' saved to secret storage.`);
+        settingsProvider.refresh(); // Refresh settings view
+        navigationProvider.refresh(); // Refresh navigation view
+    });
+
+    let removePortal = vscode.commands.registerCommand('logicmonitor.removePortal', async () => {
+        const storedPortals = await getStoredPortals(context);
+        const portalName = await vscode.window.showQuickPick(Object.keys(storedPortals), { placeHolder: 'Select the portal to remove from secret storage' });
+        if (!portalName) {
+            return;
+        }
+
+        resourceCache.invalidate(storedPortals[portalName]);
+        delete storedPortals[portalName];
+        await storePortals(context, storedPortals);
+
+        vscode.window.showInformationMessage(`Portal '${portalName}' removed from secret storage.`);
+        settingsProvider.refresh(); // Refresh settings view
+        navigationProvider.refresh(); // Refresh navigation view
+    });
+
+    let migrateCredentials = vscode.commands.registerCommand('logicmonitor.migrateCredentials', async () => {
+        let credsPath = getSetting<string>(context, 'logicmonitor.credentialsPath');
+        if (!credsPath) {
+            const creds = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                openLabel: 'Select creds.json to import'
+            });
+            if (!creds || creds.length === 0) {
+                return;
+            }
+            credsPath = creds[0].fsPath;
+        }
+
+        let filePortals: { [name: string]: Portal };
+        try {
+            filePortals = JSON.parse(fs.readFileSync(credsPath, 'utf-8'));
+        } catch (error) {
+            vscode.window.showErrorMessage("Error reading or parsing creds.json. Please make sure it exists and is correctly formatted.");
+            return;
+        }
+
+        const storedPortals = await getStoredPortals(context);
+        // Imported portals replace stored ones of the same name, which may have pointed elsewhere
+        Object.keys(filePortals).filter(portalName => storedPortals[portalName]).forEach(portalName => resourceCache.invalidate(storedPortals[portalName]));
+        await storePortals(context, { ...storedPortals, ...filePortals });
+
+        // Stop reading the file now that its portals are in secret storage
+        if (getSetting<string>(context, 'logicmonitor.credentialsPath') === credsPath) {
+            await context.workspaceState.update('logicmonitor.credentialsPath', null);
+        }
+        settingsProvider.refresh(); // Refresh settings view
+        navigationProvider.refresh(); // Refresh navigation view
+
+        const deleteChoice = await vscode.window.showInformationMessage(
+            `Imported ${Object.keys(filePortals).length} portal(s) from ${path.basename(credsPath)} into secret storage. Delete the plaintext file?`,
+            'Delete File',
+            'Keep File'
+        );
+        if (deleteChoice === 'Delete File') {
+            try {
+                fs.unlinkSync(credsPath);
+                vscode.window.showInformationMessage(`Deleted ${credsPath}.`);
+            } catch (error: any) {
+                vscode.window.showWarningMessage(`The portals were imported, but ${credsPath} could not be deleted and still holds the keys in plaintext: ${error.message}`);
+            }
+        }
+    });
+
     let setActivePortal = vscode.commands.registerCommand('logicmonitor.setActivePortal', async (portalName: string) => {
         await context.workspaceState.update('logicmonitor.activePortal', portalName);
         // Clear active collector and device when portal changes
-        await context.workspaceState.update('logicmonitor.activeCollectorId', undefined);
-        await context.workspaceState.update('logicmonitor.activeCollectorDescription', undefined);
-        await context.workspaceState.update('logicmonitor.activeDeviceId', undefined);
-        await context.workspaceState.update('logicmonitor.activeDeviceDisplayName', undefined);
-        await context.workspaceState.update('logicmonitor.activeDeviceHostname', undefined);
+        await context.workspaceState.update('logicmonitor.activeCollectorId', null);
+        await context.workspaceState.update('logicmonitor.activeCollectorDescription', null);
+        await context.workspaceState.update('logicmonitor.activeDeviceId', null);
+        await context.workspaceState.update('logicmonitor.activeDeviceDisplayName', null);
+        await context.workspaceState.update('logicmonitor.activeDeviceHostname', null);
+        await context.workspaceState.update('logicmonitor.activeInstance', null);
         navigationProvider.refresh(); // Refresh navigation view
         currentSelectionsProvider.refresh(); // Refresh current selections view
     });
 
     let setActiveDevice = vscode.commands.registerCommand('logicmonitor.setActiveDevice', async (portalName: string, collectorId: number, collectorDescription: string, deviceId: number, deviceDisplayName: string, deviceHostname: string) => {
+        if (getSetting<number>(context, 'logicmonitor.activeDeviceId') !== deviceId) {
+            await context.workspaceState.update('logicmonitor.activeInstance', null); // Instances belong to the previous device
+        }
         await context.workspaceState.update('logicmonitor.activePortal', portalName);
         await context.workspaceState.update('logicmonitor.activeCollectorId', collectorId);
         await context.workspaceState.update('logicmonitor.activeCollectorDescription', collectorDescription);
@@ -1160,11 +2157,107 @@ export function activate(context: vscode.ExtensionContext) {
         await context.workspaceState.update('logicmonitor.activeDeviceDisplayName', deviceDisplayName);
         await context.workspaceState.update('logicmonitor.activeDeviceHostname', deviceHostname);
         currentSelectionsProvider.refresh(); // Refresh current selections view
+        modulesProvider.refresh(); // Device Modules follows the active device
+    });
+
+    let findDevice = vscode.commands.registerCommand('logicmonitor.findDevice', async () => {
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
+
+        if (!activePortalName) {
+            vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
+            return;
+        }
+
+        const portalDetails = (await getCredentials(context))?.find(([name, _]) => name === activePortalName)?.[1];
+
+        if (!portalDetails) {
+            vscode.window.showErrorMessage(`Portal details for ${activePortalName} not found.`);
+            return;
+        }
+
+        type DevicePick = vscode.QuickPickItem & { device: Device };
+        const quickPick = vscode.window.createQuickPick<DevicePick>();
+        quickPick.placeholder = 'Search by display name, name, IP address or property=value';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        let searchTimer: NodeJS.Timeout | undefined;
+        let latestSearch = 0;
+        // Drops the pending search and makes any in flight stale, so its results are ignored
+        const cancelSearch = () => {
+            if (searchTimer) {
+                clearTimeout(searchTimer);
+                searchTimer = undefined;
+            }
+            latestSearch++;
+        };
+        quickPick.onDidChangeValue(value => {
+            cancelSearch();
+            if (value.trim().length < 2) {
+                quickPick.items = [];
+                quickPick.busy = false;
+                return;
+            }
+            // Wait for a pause in typing
+            searchTimer = setTimeout(async () => {
+                searchTimer = undefined;
+                const search = latestSearch;
+                quickPick.busy = true;
+                try {
+                    const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', '/device/devices', null, {
+                        size: '50',
+                        fields: 'id,name,displayName,preferredCollectorId',
+                        filter: buildDeviceSearchFilter(value.trim())
+                    });
+                    if (search === latestSearch) {
+                        quickPick.items = (response?.items || []).map((device: DevicePick['device']) => ({
+                            label: device.displayName,
+                            description: device.name,
+                            detail: `Device ${device.id}, ${device.preferredCollectorId ? `collector ${device.preferredCollectorId}` : 'no collector'}`,
+                            device
+                        }));
+                    }
+                } catch (error) {
+                    // Leave the previous results up
+                } finally {
+                    if (search === latestSearch) {
+                        quickPick.busy = false;
+                    }
+                }
+            }, 300);
+        });
+
+        const picked = await new Promise<DevicePick | undefined>(resolve => {
+            quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]));
+            quickPick.onDidHide(() => {
+                cancelSearch();
+                resolve(undefined);
+            });
+            quickPick.show();
+        });
+        cancelSearch();
+        quickPick.dispose();
+        if (!picked) {
+            return;
+        }
+
+        const { device } = picked;
+        // Devices such as cloud resources aren't monitored by a collector, so there's nothing to run scripts on
+        if (!device.preferredCollectorId) {
+            vscode.window.showErrorMessage(`${device.displayName} has no preferred collector, so scripts can't be run against it.`);
+            return;
+        }
+        let collector: any;
+        try {
+            collector = await makeApiRequest(context, outputChannel, portalDetails, 'GET', `/setting/collector/collectors/${device.preferredCollectorId}`, null, { fields: 'id,description' });
+        } catch (error) {
+            return;
+        }
+        await vscode.commands.executeCommand('logicmonitor.setActiveDevice', activePortalName, device.preferredCollectorId, collector?.description, device.id, device.displayName, device.name);
+        vscode.window.showInformationMessage(`Active device set to ${device.displayName} (collector ${collector?.description || device.preferredCollectorId}).`);
     });
 
     let runActiveScript = vscode.commands.registerCommand('logicmonitor.runActiveScript', async () => {
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        
         let document: vscode.TextDocument | undefined;
 
         if (lastActiveScriptEditorUri) {
@@ -1203,9 +2296,9 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
-        const activeDeviceId = context.workspaceState.get<number>('logicmonitor.activeDeviceId');
-        const activeCollectorId = context.workspaceState.get<number>('logicmonitor.activeCollectorId');
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
+        const activeDeviceId = getSetting<number>(context, 'logicmonitor.activeDeviceId');
+        const activeCollectorId = getSetting<number>(context, 'logicmonitor.activeCollectorId');
 
         if (!activePortalName || !activeDeviceId || !activeCollectorId) {
             vscode.window.showErrorMessage('Please select an active portal, collector, and device in the LogicMonitor sidebar.');
@@ -1219,63 +2312,294 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        const resourcePath = `/debug`;
-        const queryParams = {
-            collectorId: String(activeCollectorId)
-        };
-        const payload = {
-            cmdline: `${scriptType} hostId=${activeDeviceId}\n${scriptContent}`
-        };
-        const url = `https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?collectorId=${activeCollectorId}`;
-
-        if (debugEnabled) {
-            outputChannel.appendLine(`
---- Making Debug API Call ---`);
-            outputChannel.appendLine(`URL: ${url}`);
-            outputChannel.appendLine(`Payload: ${JSON.stringify(payload, null, 2)}`);
+        // A pulled DataSource's collection script is run with the context its collect method gets on the collector
+        const modulePath = document.uri.scheme === 'file' ? findModuleDirectory(path.dirname(document.fileName)) : undefined;
+        const pulledManifest = modulePath ? readManifest(modulePath) : undefined;
+        // The module's id, and so its instances, only mean something on the portal it was pulled from
+        const manifest = pulledManifest?.portal === activePortalName ? pulledManifest : undefined;
+        if (pulledManifest && !manifest) {
+            vscode.window.showWarningMessage(`${pulledManifest.name} was pulled from ${pulledManifest.portal}, not the active portal ${activePortalName}. The script will run without its module context or output checks.`);
+        }
+        const scriptFieldPath = manifest ? getScriptFieldPath(manifest.moduleType, path.basename(document.fileName)) : undefined;
+        const collectionDefinition = modulePath && manifest?.moduleType === 'DataSource' && scriptFieldPath === 'collectorAttribute.groovyScript'
+            ? buildModulePayload(modulePath, manifest)
+            : undefined;
+
+        let script = scriptContent;
+        const activeInstance = getSetting<ActiveInstance>(context, 'logicmonitor.activeInstance');
+        if (manifest && collectionDefinition?.collectMethod === 'batchscript') {
+            try {
+                const batchProps = await getBatchInstanceProperties(context, outputChannel, portalDetails, activeDeviceId, manifest.id);
+                script = applyBatchInstanceContext(script, batchProps);
+                outputChannel.appendLine(`\n--- Running as BATCHSCRIPT against ${Object.keys(batchProps).length} instance(s) of ${manifest.name} ---`);
+            } catch (error) {
+                return;
+            }
+        } else if (activeInstance) {
+            try {
+                const instanceProps = await getInstanceProperties(context, outputChannel, portalDetails, activeDeviceId, activeInstance);
+                script = applyInstanceContext(script, scriptType, instanceProps);
+            } catch (error) {
+                return;
+            }
+            outputChannel.appendLine(`\n--- Running against instance ${activeInstance.displayName} (${activeInstance.wildValue}) of ${activeInstance.dataSourceName} ---`);
         }
 
+        let substitution: TokenSubstitution;
         try {
-            const apiResponse = await makeApiRequest(context, outputChannel, portalDetails, 'POST', resourcePath, payload, queryParams);
-            if (debugEnabled) {
-                outputChannel.appendLine(`
---- Debug API Response ---`);
-                outputChannel.appendLine(JSON.stringify(apiResponse, null, 2));
-                outputChannel.appendLine(`--- End Debug API Response ---`);
-            }
-
-            const sessionId = apiResponse.sessionId;
-            if (sessionId) {
-                vscode.window.withProgress({
-                    location: vscode.ProgressLocation.Notification,
-                    title: "LogicMonitor: Running Script",
-                    cancellable: false
-                }, async (progress) => {
-                    progress.report({ message: "Task submitted to collector..." });
-                    await pollDebugSession(context, outputChannel, portalDetails, activeCollectorId, sessionId, progress);
+            substitution = await substituteDeviceTokens(context, outputChannel, portalDetails, activeDeviceId, script);
+        } catch (error) {
+            return;
+        }
+        const previewFileName = `${path.parse(document.fileName).name}.${scriptType === '!groovy' ? 'groovy' : 'ps1'}`;
+        if (!await confirmTokenSubstitution(outputChannel, portalContentProvider, previewFileName, scriptContent, substitution)) {
+            return;
+        }
+
+        // Output of a pulled module's collection or discovery script is checked the way LM would read it
+        let onOutput: ((output: string) => void) | undefined;
+        if (collectionDefinition) {
+            onOutput = output => showCollectionOutput(outputChannel, collectionDefinition, output, activeInstance?.wildValue);
+        } else if (scriptFieldPath === 'autoDiscoveryConfig.method.groovyScript') {
+            onOutput = output => {
+                const results = parseDiscoveryOutput(output);
+                const problemCount = results.invalidLines.length + results.instances.filter(instance => instance.problems.length > 0).length;
+                outputChannel.appendLine(`\n--- Active Discovery: ${results.instances.length} instance(s) found, ${problemCount} with problems ---`);
+                results.invalidLines.forEach(invalidLine => outputChannel.appendLine(`! Line ${invalidLine.line}: ${invalidLine.problem}: ${invalidLine.text}`));
+                results.instances.forEach(instance => instance.problems.forEach(problem => outputChannel.appendLine(`! Line ${instance.line} (${instance.wildValue}): ${problem}`)));
+                discoveryResultsProvider.setResults(results);
+                vscode.commands.executeCommand('logicmonitor-discovery.focus');
+            };
+        }
+
+        await runScriptOnCollector(context, outputChannel, portalDetails, activeCollectorId, `${scriptType} hostId=${activeDeviceId}\n${substitution.script}`, onOutput);
+    });
+
+    let clearDiscoveryResults = vscode.commands.registerCommand('logicmonitor.clearDiscoveryResults', () => {
+        discoveryResultsProvider.setResults(undefined);
+    });
+
+    let setActiveInstance = vscode.commands.registerCommand('logicmonitor.setActiveInstance', async (treeItem?: vscode.TreeItem) => {
+        let instance = treeItem?.id ? modulesProvider.getDeviceInstance(treeItem.id) : undefined;
+
+        if (!instance) {
+            const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
+            const activeDeviceId = getSetting<number>(context, 'logicmonitor.activeDeviceId');
+            if (!activePortalName || !activeDeviceId) {
+                vscode.window.showErrorMessage('Please select an active portal, collector, and device in the LogicMonitor sidebar.');
+                return;
+            }
+            const portalDetails = (await getCredentials(context))?.find(([name, _]) => name === activePortalName)?.[1];
+            if (!portalDetails) {
+                vscode.window.showErrorMessage(`Portal details for ${activePortalName} not found.`);
+                return;
+            }
+
+            let deviceDataSources: DeviceDataSource[];
+            try {
+                deviceDataSources = await fetchAllPages<DeviceDataSource>(context, outputChannel, portalDetails, `/device/devices/${activeDeviceId}/devicedatasources`, {
+                    fields: 'id,dataSourceId,dataSourceName,dataSourceDisplayName,instanceNumber'
                 });
+            } catch (error) {
+                return;
+            }
+            const clearPick = { label: 'No instance', description: 'Run scripts against the device only', deviceDataSource: undefined };
+            const dataSourcePick = await vscode.window.showQuickPick<vscode.QuickPickItem & { deviceDataSource?: DeviceDataSource }>([
+                clearPick,
+                ...deviceDataSources.map(deviceDataSource => ({
+                    label: deviceDataSource.dataSourceDisplayName,
+                    description: deviceDataSource.dataSourceName,
+                    deviceDataSource
+                }))
+            ], { placeHolder: 'Select the DataSource of the instance' });
+            if (!dataSourcePick) {
+                return;
+            }
+            const deviceDataSource = dataSourcePick.deviceDataSource;
+            if (deviceDataSource) {
+                let instances: DeviceDataSourceInstance[];
+                try {
+                    instances = await fetchAllPages<DeviceDataSourceInstance>(context, outputChannel, portalDetails, `/device/devices/${activeDeviceId}/devicedatasources/${deviceDataSource.id}/instances`, {
+                        fields: 'id,name,displayName,wildValue'
+                    });
+                } catch (error) {
+                    return;
+                }
+                const instancePick = await vscode.window.showQuickPick(
+                    instances.map(deviceInstance => ({ label: deviceInstance.displayName, description: deviceInstance.wildValue, deviceInstance })),
+                    { placeHolder: 'Select the instance to run scripts against' }
+                );
+                if (!instancePick) {
+                    return;
+                }
+                instance = {
+                    id: instancePick.deviceInstance.id,
+                    deviceDataSourceId: deviceDataSource.id,
+                    dataSourceId: deviceDataSource.dataSourceId,
+                    dataSourceName: deviceDataSource.dataSourceName,
+                    displayName: instancePick.deviceInstance.displayName,
+                    wildValue: instancePick.deviceInstance.wildValue
+                };
+            }
+        }
+
+        await context.workspaceState.update('logicmonitor.activeInstance', instance || null);
+        currentSelectionsProvider.refresh(); // Refresh current selections view
+        modulesProvider.refresh();
+    });
+
+    let runCollectionForInstance = vscode.commands.registerCommand('logicmonitor.runCollectionForInstance', async (treeItem: vscode.TreeItem) => {
+        const deviceInstance = treeItem?.id ? modulesProvider.getDeviceInstance(treeItem.id) : undefined;
+        if (!deviceInstance) {
+            vscode.window.showErrorMessage('Could not determine the instance from the selected item.');
+            return;
+        }
+
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
+        const activeDeviceId = getSetting<number>(context, 'logicmonitor.activeDeviceId');
+        const activeCollectorId = getSetting<number>(context, 'logicmonitor.activeCollectorId');
+
+        if (!activePortalName || !activeDeviceId || !activeCollectorId) {
+            vscode.window.showErrorMessage('Please select an active portal, collector, and device in the LogicMonitor sidebar.');
+            return;
+        }
+
+        const portalDetails = (await getCredentials(context))?.find(([name, _]) => name === activePortalName)?.[1];
+
+        if (!portalDetails) {
+            vscode.window.showErrorMessage(`Portal details for ${activePortalName} not found.`);
+            return;
+        }
+
+        // Prefer a pulled copy so local edits can be tried against a real instance before pushing
+        let collectionScript: string | undefined;
+        let definition: any;
+        const modulePath = findLocalModule('DataSource', activePortalName, deviceInstance.dataSourceId);
+        const manifest = modulePath ? readManifest(modulePath) : undefined;
+        if (modulePath && manifest && fs.existsSync(path.join(modulePath, 'collection.groovy'))) {
+            collectionScript = fs.readFileSync(path.join(modulePath, 'collection.groovy'), 'utf-8');
+            definition = buildModulePayload(modulePath, manifest);
+        } else {
+            try {
+                definition = await makeApiRequest(context, outputChannel, portalDetails, 'GET', `/setting/datasources/${deviceInstance.dataSourceId}`, null, { format: 'json' });
+            } catch (error) {
+                return;
+            }
+            collectionScript = definition?.collectorAttribute?.groovyScript;
+        }
+        if (!collectionScript) {
+            vscode.window.showErrorMessage(`${deviceInstance.dataSourceName} has no Groovy collection script to run.`);
+            return;
+        }
+
+        // A BATCHSCRIPT collection runs once for all instances, so it gets all of them rather than the one clicked
+        const isBatch = definition?.collectMethod === 'batchscript';
+        let substitution: TokenSubstitution;
+        let instanceCount = 1;
+        try {
+            let script: string;
+            if (isBatch) {
+                const batchProps = await getBatchInstanceProperties(context, outputChannel, portalDetails, activeDeviceId, deviceInstance.dataSourceId);
+                instanceCount = Object.keys(batchProps).length;
+                script = applyBatchInstanceContext(collectionScript, batchProps);
             } else {
-                vscode.window.showErrorMessage('Failed to start debug session: No sessionId returned.');
+                const instanceProps = await getInstanceProperties(context, outputChannel, portalDetails, activeDeviceId, deviceInstance);
+                script = applyInstanceContext(collectionScript, '!groovy', instanceProps);
             }
-        } catch (error: any) {
-            outputChannel.appendLine(`
---- Debug API Error ---`);
-            outputChannel.appendLine(`Error: ${error.message}`);
-            outputChannel.appendLine(`--- End Debug API Error ---`);
-            vscode.window.showErrorMessage(`Debug API call failed: ${error.message}`);
+            substitution = await substituteDeviceTokens(context, outputChannel, portalDetails, activeDeviceId, script);
+        } catch (error) {
+            return;
         }
-        outputChannel.show();
+        if (!await confirmTokenSubstitution(outputChannel, portalContentProvider, 'collection.groovy', collectionScript, substitution)) {
+            return;
+        }
+        outputChannel.appendLine(isBatch
+            ? `\n--- Running ${deviceInstance.dataSourceName} BATCHSCRIPT collection for ${instanceCount} instance(s) ---`
+            : `\n--- Running ${deviceInstance.dataSourceName} collection for instance ${deviceInstance.displayName} (${deviceInstance.wildValue}) ---`);
+        await runScriptOnCollector(context, outputChannel, portalDetails, activeCollectorId, `!groovy hostId=${activeDeviceId}\n${substitution.script}`,
+            output => showCollectionOutput(outputChannel, definition, output, deviceInstance.wildValue));
+    });
+
+    let saveWorkspaceConfig = vscode.commands.registerCommand('logicmonitor.saveWorkspaceConfig', async () => {
+        const configPath = getWorkspaceConfigPath();
+        if (!configPath) {
+            vscode.window.showErrorMessage(`No workspace folder open. Cannot save ${WORKSPACE_CONFIG_FILE}.`);
+            return;
+        }
+
+        let config: { [name: string]: any } = {};
+        if (fs.existsSync(configPath)) {
+            try {
+                config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error reading or parsing ${WORKSPACE_CONFIG_FILE}. Please fix or delete it and try again.`);
+                return;
+            }
+        }
+
+        for (const [stateKey, configName] of Object.entries(WORKSPACE_CONFIG_KEYS)) {
+            const value = getSetting<any>(context, stateKey);
+            if (value === undefined) {
+                delete config[configName];
+            } else if (configName === 'credentialsPath') {
+                // Stored relative to the workspace so teammates' clones resolve it; the creds file itself stays uncommitted
+                config[configName] = path.relative(path.dirname(configPath), value).split(path.sep).join('/');
+            } else {
+                config[configName] = value;
+            }
+        }
+        fs.writeFileSync(configPath, JSON.stringify(config, null, 4));
+        invalidateWorkspaceConfig(); // Don't wait for the watcher, the workspace values are cleared next
+
+        // The file is now the source of these values
+        for (const stateKey of Object.keys(WORKSPACE_CONFIG_KEYS)) {
+            await context.workspaceState.update(stateKey, undefined);
+        }
+        vscode.window.showInformationMessage(`Selections saved to ${WORKSPACE_CONFIG_FILE}.`);
+        settingsProvider.refresh(); // Refresh settings view
+        currentSelectionsProvider.refresh(); // Refresh current selections view
     });
 
     let toggleDebug = vscode.commands.registerCommand('logicmonitor.toggleDebug', async () => {
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
         await context.workspaceState.update('logicmonitor.debugEnabled', !debugEnabled);
         settingsProvider.refresh(); // Refresh settings view
     });
 
+    let toggleNavigationMode = vscode.commands.registerCommand('logicmonitor.toggleNavigationMode', async () => {
+        const mode = context.workspaceState.get<NavigationMode>('logicmonitor.navigationMode', 'collectors');
+        await context.workspaceState.update('logicmonitor.navigationMode', mode === 'collectors' ? 'deviceGroups' : 'collectors');
+        navigationProvider.refresh(); // Refresh navigation view
+    });
+
+    // Refresh button on portal nodes in Navigation and module type nodes in the Remote branch of Modules
+    let refreshTreeItem = vscode.commands.registerCommand('logicmonitor.refreshTreeItem', (treeItem: vscode.TreeItem) => {
+        if (treeItem?.contextValue === 'portal' && treeItem.id) {
+            navigationProvider.refreshPortal(treeItem.id.replace('portal-', ''));
+        } else if (treeItem?.contextValue?.startsWith('module-category') && treeItem.id) {
+            modulesProvider.refreshCategory(treeItem.id);
+        }
+    });
+
+    let setRemoteGrouping = vscode.commands.registerCommand('logicmonitor.setRemoteGrouping', async (treeItem?: vscode.TreeItem) => {
+        const moduleTypeInfo = Object.values(MODULE_TYPES).find(info => info.remoteRootId === treeItem?.id) || MODULE_TYPES.DataSource;
+        const current = modulesProvider.getGrouping(moduleTypeInfo);
+        const pick = await vscode.window.showQuickPick(
+            moduleTypeInfo.remoteGroupings.map(grouping => ({
+                label: REMOTE_MODULE_GROUPING_LABELS[grouping],
+                description: grouping === current ? 'current' : undefined,
+                grouping
+            })),
+            { placeHolder: `Group remote ${moduleTypeInfo.remoteRootLabel} by` }
+        );
+        if (pick) {
+            await modulesProvider.setGrouping(moduleTypeInfo, pick.grouping);
+        }
+    });
+
     let pullDataSource = vscode.commands.registerCommand('logicmonitor.pullDataSource', async (treeItem: vscode.TreeItem) => {
         console.log('Received item for pullDataSource:', treeItem);
-        const dataSourceIdMatch = treeItem.id?.match(/remote-datasource-(\d+)/);
+        const dataSourceIdMatch = treeItem.id?.match(/(?:remote|device)-datasource-(\d+)/); // Remote branch or Device Modules branch
         if (!dataSourceIdMatch || !dataSourceIdMatch[1]) {
             vscode.window.showErrorMessage('Could not determine DataSource ID from the selected item.');
             return;
@@ -1298,8 +2622,8 @@ export function activate(context: vscode.ExtensionContext) {
                 dataSourceName = treeItem.label.label; // Fallback
             }
         }
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
 
         if (!activePortalName) {
             vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
@@ -1321,7 +2645,7 @@ export function activate(context: vscode.ExtensionContext) {
 --- Pulling DataSource ---`);
             outputChannel.appendLine(`DataSource ID: ${dataSourceId}`);
             outputChannel.appendLine(`DataSource Name: ${dataSourceName}`);
-            outputChannel.appendLine(`URL: https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?format=json`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}?format=json`);
         }
 
         try {
@@ -1340,61 +2664,12 @@ export function activate(context: vscode.ExtensionContext) {
             const workspaceRoot = workspaceFolders[0].uri.fsPath;
             const moduleDir = path.join(workspaceRoot, dataSourceName);
 
-            if (!fs.existsSync(moduleDir)) {
-                fs.mkdirSync(moduleDir, { recursive: true });
-            }
-
-            const moduleFilePath = path.join(moduleDir, `${dataSourceName}.json`); // Assuming JSON format
-            fs.writeFileSync(moduleFilePath, JSON.stringify(dataSourceDefinition, null, 2));
-
-            // Create and save the manifest file
-            const manifestContent = {
-                name: dataSourceName,
-                displayName: treeItem.label, // Use the full display name from the tree item
-                id: dataSourceId,
-                portal: activePortalName,
-                moduleType: "DataSource", // Add the module type
-                pullDate: new Date().toISOString()
-            };
-            const manifestFilePath = path.join(moduleDir, `manifest.json`);
-            fs.writeFileSync(manifestFilePath, JSON.stringify(manifestContent, null, 2));
-            vscode.window.showInformationMessage(`Manifest saved to ${manifestFilePath}`);
-
-            // Extract and save discovery script if present
-            if (dataSourceDefinition.autoDiscoveryConfig && dataSourceDefinition.autoDiscoveryConfig.method) {
-                let scriptContent: string | undefined;
-                let scriptExtension: string = ".groovy"; // Default to groovy
-
-                if (dataSourceDefinition.autoDiscoveryConfig.method.groovyScript) {
-                    scriptContent = dataSourceDefinition.autoDiscoveryConfig.method.groovyScript;
-                    scriptExtension = ".groovy";
-                }
-
-                if (scriptContent) {
-                    const scriptFileName = `discovery${scriptExtension}`;
-                    const scriptFilePath = path.join(moduleDir, scriptFileName);
-                    fs.writeFileSync(scriptFilePath, scriptContent);
-                    vscode.window.showInformationMessage(`Discovery script saved to ${scriptFilePath}`);
-                }
+            if (!(await confirmLocalOverwrite(portalContentProvider, moduleDir, "DataSource", dataSourceName, dataSourceDefinition))) {
+                return;
             }
 
-            // Extract and save collection script if present
-            if (dataSourceDefinition.collectorAttribute) {
-                let scriptContent: string | undefined;
-                let scriptExtension: string = ".groovy"; // Default to groovy
-
-                if (dataSourceDefinition.collectorAttribute.groovyScript) {
-                    scriptContent = dataSourceDefinition.collectorAttribute.groovyScript;
-                    scriptExtension = ".groovy";
-                }
-
-                if (scriptContent) {
-                    const scriptFileName = `collection${scriptExtension}`;
-                    const scriptFilePath = path.join(moduleDir, scriptFileName);
-                    fs.writeFileSync(scriptFilePath, scriptContent);
-                    vscode.window.showInformationMessage(`Collection script saved to ${scriptFilePath}`);
-                }
-            }
+            saveModuleLocally(moduleDir, "DataSource", dataSourceName, dataSourceDefinition, activePortalName);
+            const moduleFilePath = path.join(moduleDir, `${dataSourceName}.json`);
 
             vscode.window.showInformationMessage(`DataSource '${dataSourceName}' pulled successfully to ${moduleFilePath}`);
 
@@ -1420,8 +2695,8 @@ export function activate(context: vscode.ExtensionContext) {
 
         const eventSourceName = treeItem.label as string;
 
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
 
         if (!activePortalName) {
             vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
@@ -1443,7 +2718,7 @@ export function activate(context: vscode.ExtensionContext) {
 --- Pulling EventSource ---`);
             outputChannel.appendLine(`EventSource ID: ${eventSourceId}`);
             outputChannel.appendLine(`EventSource Name: ${eventSourceName}`);
-            outputChannel.appendLine(`URL: https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?format=json`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}?format=json`);
         }
 
         try {
@@ -1464,30 +2739,12 @@ export function activate(context: vscode.ExtensionContext) {
             const workspaceRoot = workspaceFolders[0].uri.fsPath;
             const moduleDir = path.join(workspaceRoot, eventSourceName);
 
-            if (!fs.existsSync(moduleDir)) {
-                fs.mkdirSync(moduleDir, { recursive: true });
+            if (!(await confirmLocalOverwrite(portalContentProvider, moduleDir, "EventSource", eventSourceName, eventSourceDefinition))) {
+                return;
             }
 
+            saveModuleLocally(moduleDir, "EventSource", eventSourceName, eventSourceDefinition, activePortalName);
             const moduleFilePath = path.join(moduleDir, `${eventSourceName}.json`);
-            fs.writeFileSync(moduleFilePath, JSON.stringify(eventSourceDefinition, null, 2));
-
-            const manifestContent = {
-                name: eventSourceName,
-                displayName: eventSourceName,
-                id: eventSourceId,
-                portal: activePortalName,
-                moduleType: "EventSource",
-                pullDate: new Date().toISOString()
-            };
-            const manifestFilePath = path.join(moduleDir, `manifest.json`);
-            fs.writeFileSync(manifestFilePath, JSON.stringify(manifestContent, null, 2));
-            vscode.window.showInformationMessage(`Manifest saved to ${manifestFilePath}`);
-
-            if (eventSourceDefinition.groovyScript) {
-                const scriptFilePath = path.join(moduleDir, `script.groovy`);
-                fs.writeFileSync(scriptFilePath, eventSourceDefinition.groovyScript);
-                vscode.window.showInformationMessage(`Groovy script saved to ${scriptFilePath}`);
-            }
 
             vscode.window.showInformationMessage(`EventSource '${eventSourceName}' pulled successfully to ${moduleFilePath}`);
 
@@ -1511,8 +2768,8 @@ export function activate(context: vscode.ExtensionContext) {
 
         const propertySourceName = treeItem.label as string;
 
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
 
         if (!activePortalName) {
             vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
@@ -1534,7 +2791,7 @@ export function activate(context: vscode.ExtensionContext) {
 --- Pulling PropertySource ---`);
             outputChannel.appendLine(`PropertySource ID: ${propertySourceId}`);
             outputChannel.appendLine(`PropertySource Name: ${propertySourceName}`);
-            outputChannel.appendLine(`URL: https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?format=json`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}?format=json`);
         }
 
         try {
@@ -1555,36 +2812,12 @@ export function activate(context: vscode.ExtensionContext) {
             const workspaceRoot = workspaceFolders[0].uri.fsPath;
             const moduleDir = path.join(workspaceRoot, propertySourceName);
 
-            if (!fs.existsSync(moduleDir)) {
-                fs.mkdirSync(moduleDir, { recursive: true });
+            if (!(await confirmLocalOverwrite(portalContentProvider, moduleDir, "PropertySource", propertySourceName, propertySourceDefinition))) {
+                return;
             }
 
+            saveModuleLocally(moduleDir, "PropertySource", propertySourceName, propertySourceDefinition, activePortalName);
             const moduleFilePath = path.join(moduleDir, `${propertySourceName}.json`);
-            fs.writeFileSync(moduleFilePath, JSON.stringify(propertySourceDefinition, null, 2));
-
-            const manifestContent = {
-                name: propertySourceName,
-                displayName: propertySourceName,
-                id: propertySourceId,
-                portal: activePortalName,
-                moduleType: "PropertySource",
-                pullDate: new Date().toISOString()
-            };
-            const manifestFilePath = path.join(moduleDir, `manifest.json`);
-            fs.writeFileSync(manifestFilePath, JSON.stringify(manifestContent, null, 2));
-            vscode.window.showInformationMessage(`Manifest saved to ${manifestFilePath}`);
-
-            if (propertySourceDefinition.groovyScript) {
-                const scriptFilePath = path.join(moduleDir, `script.groovy`);
-                fs.writeFileSync(scriptFilePath, propertySourceDefinition.groovyScript);
-                vscode.window.showInformationMessage(`Groovy script saved to ${scriptFilePath}`);
-            }
-
-            if (propertySourceDefinition.windowsScript) {
-                const scriptFilePath = path.join(moduleDir, `script.ps1`);
-                fs.writeFileSync(scriptFilePath, propertySourceDefinition.windowsScript);
-                vscode.window.showInformationMessage(`PowerShell script saved to ${scriptFilePath}`);
-            }
 
             vscode.window.showInformationMessage(`PropertySource '${propertySourceName}' pulled successfully to ${moduleFilePath}`);
 
@@ -1608,8 +2841,8 @@ export function activate(context: vscode.ExtensionContext) {
 
         const configSourceName = treeItem.label as string;
 
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
 
         if (!activePortalName) {
             vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
@@ -1631,7 +2864,7 @@ export function activate(context: vscode.ExtensionContext) {
 --- Pulling ConfigSource ---`);
             outputChannel.appendLine(`ConfigSource ID: ${configSourceId}`);
             outputChannel.appendLine(`ConfigSource Name: ${configSourceName}`);
-            outputChannel.appendLine(`URL: https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?format=json`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}?format=json`);
         }
 
         try {
@@ -1652,38 +2885,12 @@ export function activate(context: vscode.ExtensionContext) {
             const workspaceRoot = workspaceFolders[0].uri.fsPath;
             const moduleDir = path.join(workspaceRoot, configSourceName);
 
-            if (!fs.existsSync(moduleDir)) {
-                fs.mkdirSync(moduleDir, { recursive: true });
+            if (!(await confirmLocalOverwrite(portalContentProvider, moduleDir, "ConfigSource", configSourceName, configSourceDefinition))) {
+                return;
             }
 
+            saveModuleLocally(moduleDir, "ConfigSource", configSourceName, configSourceDefinition, activePortalName);
             const moduleFilePath = path.join(moduleDir, `${configSourceName}.json`);
-            fs.writeFileSync(moduleFilePath, JSON.stringify(configSourceDefinition, null, 2));
-
-            const manifestContent = {
-                name: configSourceName,
-                displayName: configSourceName,
-                id: configSourceId,
-                portal: activePortalName,
-                moduleType: "ConfigSource",
-                pullDate: new Date().toISOString()
-            };
-            const manifestFilePath = path.join(moduleDir, `manifest.json`);
-            fs.writeFileSync(manifestFilePath, JSON.stringify(manifestContent, null, 2));
-            vscode.window.showInformationMessage(`Manifest saved to ${manifestFilePath}`);
-
-            if (configSourceDefinition.collectorAttribute && configSourceDefinition.collectorAttribute.groovyScript) {
-                const scriptExtension = configSourceDefinition.collectorAttribute.scriptType === 'powerShell' ? '.ps1' : '.groovy';
-                const scriptFilePath = path.join(moduleDir, `collection${scriptExtension}`);
-                fs.writeFileSync(scriptFilePath, configSourceDefinition.collectorAttribute.groovyScript);
-                vscode.window.showInformationMessage(`Collection script saved to ${scriptFilePath}`);
-            }
-
-            if (configSourceDefinition.autoDiscoveryConfig && configSourceDefinition.autoDiscoveryConfig.method && configSourceDefinition.autoDiscoveryConfig.method.groovyScript) {
-                const scriptExtension = configSourceDefinition.autoDiscoveryConfig.method.type === 'powerShell' ? '.ps1' : '.groovy';
-                const scriptFilePath = path.join(moduleDir, `discovery${scriptExtension}`);
-                fs.writeFileSync(scriptFilePath, configSourceDefinition.autoDiscoveryConfig.method.groovyScript);
-                vscode.window.showInformationMessage(`Discovery script saved to ${scriptFilePath}`);
-            }
 
             vscode.window.showInformationMessage(`ConfigSource '${configSourceName}' pulled successfully to ${moduleFilePath}`);
 
@@ -1707,8 +2914,8 @@ export function activate(context: vscode.ExtensionContext) {
 
         const topologySourceName = treeItem.label as string;
 
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
 
         if (!activePortalName) {
             vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
@@ -1730,7 +2937,7 @@ export function activate(context: vscode.ExtensionContext) {
 --- Pulling TopologySource ---`);
             outputChannel.appendLine(`TopologySource ID: ${topologySourceId}`);
             outputChannel.appendLine(`TopologySource Name: ${topologySourceName}`);
-            outputChannel.appendLine(`URL: https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?format=json`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}?format=json`);
         }
 
         try {
@@ -1751,31 +2958,12 @@ export function activate(context: vscode.ExtensionContext) {
             const workspaceRoot = workspaceFolders[0].uri.fsPath;
             const moduleDir = path.join(workspaceRoot, topologySourceName);
 
-            if (!fs.existsSync(moduleDir)) {
-                fs.mkdirSync(moduleDir, { recursive: true });
+            if (!(await confirmLocalOverwrite(portalContentProvider, moduleDir, "TopologySource", topologySourceName, topologySourceDefinition))) {
+                return;
             }
 
+            saveModuleLocally(moduleDir, "TopologySource", topologySourceName, topologySourceDefinition, activePortalName);
             const moduleFilePath = path.join(moduleDir, `${topologySourceName}.json`);
-            fs.writeFileSync(moduleFilePath, JSON.stringify(topologySourceDefinition, null, 2));
-
-            const manifestContent = {
-                name: topologySourceName,
-                displayName: topologySourceName,
-                id: topologySourceId,
-                portal: activePortalName,
-                moduleType: "TopologySource",
-                pullDate: new Date().toISOString()
-            };
-            const manifestFilePath = path.join(moduleDir, `manifest.json`);
-            fs.writeFileSync(manifestFilePath, JSON.stringify(manifestContent, null, 2));
-            vscode.window.showInformationMessage(`Manifest saved to ${manifestFilePath}`);
-
-            if (topologySourceDefinition.collectorAttribute && topologySourceDefinition.collectorAttribute.groovyScript) {
-                const scriptExtension = topologySourceDefinition.collectorAttribute.scriptType === 'powerShell' ? '.ps1' : '.groovy';
-                const scriptFilePath = path.join(moduleDir, `script${scriptExtension}`);
-                fs.writeFileSync(scriptFilePath, topologySourceDefinition.collectorAttribute.groovyScript);
-                vscode.window.showInformationMessage(`Script saved to ${scriptFilePath}`);
-            }
 
             vscode.window.showInformationMessage(`TopologySource '${topologySourceName}' pulled successfully to ${moduleFilePath}`);
 
@@ -1799,8 +2987,8 @@ export function activate(context: vscode.ExtensionContext) {
 
         const logSourceName = treeItem.label as string;
 
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
 
         if (!activePortalName) {
             vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
@@ -1822,7 +3010,7 @@ export function activate(context: vscode.ExtensionContext) {
 --- Pulling LogSource ---`);
             outputChannel.appendLine(`LogSource ID: ${logSourceId}`);
             outputChannel.appendLine(`LogSource Name: ${logSourceName}`);
-            outputChannel.appendLine(`URL: https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?format=json`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}?format=json`);
         }
 
         try {
@@ -1843,30 +3031,12 @@ export function activate(context: vscode.ExtensionContext) {
             const workspaceRoot = workspaceFolders[0].uri.fsPath;
             const moduleDir = path.join(workspaceRoot, logSourceName);
 
-            if (!fs.existsSync(moduleDir)) {
-                fs.mkdirSync(moduleDir, { recursive: true });
+            if (!(await confirmLocalOverwrite(portalContentProvider, moduleDir, "LogSource", logSourceName, logSourceDefinition))) {
+                return;
             }
 
+            saveModuleLocally(moduleDir, "LogSource", logSourceName, logSourceDefinition, activePortalName);
             const moduleFilePath = path.join(moduleDir, `${logSourceName}.json`);
-            fs.writeFileSync(moduleFilePath, JSON.stringify(logSourceDefinition, null, 2));
-
-            const manifestContent = {
-                name: logSourceName,
-                displayName: logSourceName,
-                id: logSourceId,
-                portal: activePortalName,
-                moduleType: "LogSource",
-                pullDate: new Date().toISOString()
-            };
-            const manifestFilePath = path.join(moduleDir, `manifest.json`);
-            fs.writeFileSync(manifestFilePath, JSON.stringify(manifestContent, null, 2));
-            vscode.window.showInformationMessage(`Manifest saved to ${manifestFilePath}`);
-
-            if (logSourceDefinition.collectionAttribute && logSourceDefinition.collectionAttribute.script && logSourceDefinition.collectionAttribute.script.embeddedContent) {
-                const scriptFilePath = path.join(moduleDir, `script.groovy`);
-                fs.writeFileSync(scriptFilePath, logSourceDefinition.collectionAttribute.script.embeddedContent);
-                vscode.window.showInformationMessage(`Script saved to ${scriptFilePath}`);
-            }
 
             vscode.window.showInformationMessage(`LogSource '${logSourceName}' pulled successfully to ${moduleFilePath}`);
 
@@ -1890,8 +3060,8 @@ export function activate(context: vscode.ExtensionContext) {
 
         const appliesToFunctionName = treeItem.label as string;
 
-        const debugEnabled = context.workspaceState.get<boolean>('logicmonitor.debugEnabled', false);
-        const activePortalName = context.workspaceState.get<string>('logicmonitor.activePortal');
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
 
         if (!activePortalName) {
             vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
@@ -1913,7 +3083,7 @@ export function activate(context: vscode.ExtensionContext) {
 --- Pulling AppliesTo Function ---`);
             outputChannel.appendLine(`AppliesTo Function ID: ${appliesToFunctionId}`);
             outputChannel.appendLine(`AppliesTo Function Name: ${appliesToFunctionName}`);
-            outputChannel.appendLine(`URL: https://${portalDetails.COMPANY_NAME}.logicmonitor.com/santaba/rest${resourcePath}?format=json`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}?format=json`);
         }
 
         try {
@@ -1934,24 +3104,12 @@ export function activate(context: vscode.ExtensionContext) {
             const workspaceRoot = workspaceFolders[0].uri.fsPath;
             const moduleDir = path.join(workspaceRoot, appliesToFunctionName);
 
-            if (!fs.existsSync(moduleDir)) {
-                fs.mkdirSync(moduleDir, { recursive: true });
+            if (!(await confirmLocalOverwrite(portalContentProvider, moduleDir, "AppliesToFunction", appliesToFunctionName, appliesToFunctionDefinition))) {
+                return;
             }
 
+            saveModuleLocally(moduleDir, "AppliesToFunction", appliesToFunctionName, appliesToFunctionDefinition, activePortalName);
             const moduleFilePath = path.join(moduleDir, `${appliesToFunctionName}.json`);
-            fs.writeFileSync(moduleFilePath, JSON.stringify(appliesToFunctionDefinition, null, 2));
-
-            const manifestContent = {
-                name: appliesToFunctionName,
-                displayName: appliesToFunctionName,
-                id: appliesToFunctionId,
-                portal: activePortalName,
-                moduleType: "AppliesToFunction",
-                pullDate: new Date().toISOString()
-            };
-            const manifestFilePath = path.join(moduleDir, `manifest.json`);
-            fs.writeFileSync(manifestFilePath, JSON.stringify(manifestContent, null, 2));
-            vscode.window.showInformationMessage(`Manifest saved to ${manifestFilePath}`);
 
             vscode.window.showInformationMessage(`AppliesTo Function '${appliesToFunctionName}' pulled successfully to ${moduleFilePath}`);
 
@@ -1965,11 +3123,678 @@ export function activate(context: vscode.ExtensionContext) {
         outputChannel.show();
     });
 
+    let push = vscode.commands.registerCommand('logicmonitor.push', async (target?: string | vscode.TreeItem) => {
+        const debugEnabled = getSetting<boolean>(context, 'logicmonitor.debugEnabled', false);
+
+        const modulePath = await resolveModulePath(target);
+        if (!modulePath) {
+            return;
+        }
+
+        const manifestFilePath = path.join(modulePath, 'manifest.json');
+        const manifest = readManifest(modulePath);
+        if (!manifest) {
+            vscode.window.showErrorMessage(`Could not read manifest.json in ${modulePath}. Please pull the module first.`);
+            return;
+        }
+
+        const moduleTypeInfo = MODULE_TYPES[manifest.moduleType];
+        if (!moduleTypeInfo) {
+            vscode.window.showErrorMessage(`Unknown module type '${manifest.moduleType}' in ${manifestFilePath}.`);
+            return;
+        }
+
+        const portalDetails = (await getCredentials(context))?.find(([name, _]) => name === manifest.portal)?.[1];
+
+        if (!portalDetails) {
+            vscode.window.showErrorMessage(`Portal details for ${manifest.portal} not found.`);
+            return;
+        }
+
+        const moduleFilePath = path.join(modulePath, `${manifest.name}.json`);
+        let moduleDefinition: any;
+        try {
+            moduleDefinition = buildModulePayload(modulePath, manifest);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not read or parse ${moduleFilePath}.`);
+            return;
+        }
+
+        const resourcePath = `${moduleTypeInfo.resourcePath}/${manifest.id}`;
+
+        if (debugEnabled) {
+            outputChannel.appendLine(`
+--- Pushing ${moduleTypeInfo.label} ---`);
+            outputChannel.appendLine(`${moduleTypeInfo.label} ID: ${manifest.id}`);
+            outputChannel.appendLine(`${moduleTypeInfo.label} Name: ${manifest.name}`);
+            outputChannel.appendLine(`URL: ${getBaseUrl(portalDetails)}${resourcePath}`);
+        }
+
+        try {
+            if (!(await confirmRemoteOverwrite(context, outputChannel, portalContentProvider, portalDetails, manifest, moduleDefinition))) {
+                return;
+            }
+
+            const updatedDefinition = await makeApiRequest(context, outputChannel, portalDetails, 'PATCH', resourcePath, moduleDefinition);
+
+            // Keep the local definition in step with what the portal now has
+            fs.writeFileSync(moduleFilePath, JSON.stringify(updatedDefinition, null, 2));
+
+            Object.assign(manifest, getManifestHashes(manifest.moduleType, manifest.name, updatedDefinition));
+            manifest.pushDate = new Date().toISOString();
+            fs.writeFileSync(manifestFilePath, JSON.stringify(manifest, null, 2));
+            moduleStatusDecorationProvider.setStatus(modulePath, 'upToDate');
+
+            vscode.window.showInformationMessage(`${moduleTypeInfo.label} '${manifest.name}' pushed successfully to ${manifest.portal}.`);
+            modulesProvider.refresh();
+        } catch (error: any) {
+            outputChannel.appendLine(`
+--- Push ${moduleTypeInfo.label} Error ---`);
+            outputChannel.appendLine(`Error: ${error.message}`);
+            outputChannel.appendLine(`--- End Push ${moduleTypeInfo.label} Error ---`);
+            vscode.window.showErrorMessage(`Failed to push ${moduleTypeInfo.label} '${manifest.name}': ${error.message}`);
+        }
+        outputChannel.show();
+    });
+
+    let compareWithPortal = vscode.commands.registerCommand('logicmonitor.compareWithPortal', async (target?: string | vscode.TreeItem) => {
+        const modulePath = await resolveModulePath(target);
+        if (!modulePath) {
+            return;
+        }
+
+        const manifest = readManifest(modulePath);
+        if (!manifest) {
+            vscode.window.showErrorMessage(`Could not read manifest.json in ${modulePath}. Please pull the module first.`);
+            return;
+        }
+
+        const moduleTypeInfo = MODULE_TYPES[manifest.moduleType];
+        if (!moduleTypeInfo) {
+            vscode.window.showErrorMessage(`Unknown module type '${manifest.moduleType}' in ${modulePath}.`);
+            return;
+        }
+
+        const portalDetails = (await getCredentials(context))?.find(([name, _]) => name === manifest.portal)?.[1];
+
+        if (!portalDetails) {
+            vscode.window.showErrorMessage(`Portal details for ${manifest.portal} not found.`);
+            return;
+        }
+
+        try {
+            const remoteDefinition = await makeApiRequest(context, outputChannel, portalDetails, 'GET', `${moduleTypeInfo.resourcePath}/${manifest.id}`, null, { format: 'json' });
+            const remoteFiles = extractModuleFiles(manifest.moduleType, manifest.name, remoteDefinition);
+
+            // Compare every file either side has, so scripts added or removed locally show up too
+            const fileNames = new Set([`${manifest.name}.json`, ...Object.keys(remoteFiles)]);
+            for (const script of moduleTypeInfo.scripts) {
+                if (fs.existsSync(path.join(modulePath, script.fileName))) {
+                    fileNames.add(script.fileName);
+                }
+            }
+
+            let differences = 0;
+            for (const fileName of fileNames) {
+                const localFilePath = path.join(modulePath, fileName);
+                const localContent = fs.existsSync(localFilePath) ? fs.readFileSync(localFilePath, 'utf-8') : undefined;
+                const remoteContent = remoteFiles[fileName];
+                if (localContent === remoteContent) {
+                    continue;
+                }
+                differences++;
+
+                const remoteUri = portalContentProvider.setContent(manifest.portal, manifest.name, fileName, remoteContent ?? '');
+                const localUri = localContent !== undefined
+                    ? vscode.Uri.file(localFilePath)
+                    : portalContentProvider.setContent('local', manifest.name, fileName, '');
+                await showDiff(`${fileName} (${manifest.portal} ↔ Local)`, remoteUri, localUri);
+            }
+
+            if (differences === 0) {
+                vscode.window.showInformationMessage(`${moduleTypeInfo.label} '${manifest.name}' matches the version on ${manifest.portal}.`);
+            }
+        } catch (error: any) {
+            outputChannel.appendLine(`
+--- Compare ${moduleTypeInfo.label} Error ---`);
+            outputChannel.appendLine(`Error: ${error.message}`);
+            outputChannel.appendLine(`--- End Compare ${moduleTypeInfo.label} Error ---`);
+            vscode.window.showErrorMessage(`Failed to compare ${moduleTypeInfo.label} '${manifest.name}' with ${manifest.portal}: ${error.message}`);
+        }
+    });
+
+    let comparePortals = vscode.commands.registerCommand('logicmonitor.comparePortals', async (moduleType?: string, moduleName?: string, firstPortalName?: string, secondPortalName?: string) => {
+        const portals = await getCredentials(context);
+        if (!portals) {
+            return;
+        }
+        if (portals.length < 2) {
+            vscode.window.showErrorMessage('At least two portals must be configured to compare them.');
+            return;
+        }
+
+        if (!moduleType) {
+            const typePick = await vscode.window.showQuickPick(
+                Object.entries(MODULE_TYPES).map(([type, info]) => ({ label: info.label, moduleType: type })),
+                { placeHolder: 'Select the module type to compare' }
+            );
+            moduleType = typePick?.moduleType;
+        }
+        const moduleTypeInfo = moduleType ? MODULE_TYPES[moduleType] : undefined;
+        if (!moduleType || !moduleTypeInfo) {
+            return;
+        }
+
+        if (!moduleName) {
+            moduleName = await vscode.window.showInputBox({ prompt: `Name of the ${moduleTypeInfo.label} to compare`, ignoreFocusOut: true });
+        }
+        if (!moduleName) {
+            return;
+        }
+
+        const portalNames = portals.map(([name, _]) => name);
+        if (!firstPortalName) {
+            firstPortalName = await vscode.window.showQuickPick(portalNames, { placeHolder: 'Select the first portal' });
+        }
+        if (!firstPortalName) {
+            return;
+        }
+        if (!secondPortalName) {
+            secondPortalName = await vscode.window.showQuickPick(portalNames.filter(name => name !== firstPortalName), { placeHolder: 'Select the second portal' });
+        }
+        if (!secondPortalName) {
+            return;
+        }
+
+        const firstPortal = portals.find(([name, _]) => name === firstPortalName)?.[1];
+        const secondPortal = portals.find(([name, _]) => name === secondPortalName)?.[1];
+        if (!firstPortal || !secondPortal) {
+            vscode.window.showErrorMessage(`Portal details for ${!firstPortal ? firstPortalName : secondPortalName} not found.`);
+            return;
+        }
+
+        try {
+            const [firstDefinition, secondDefinition] = await Promise.all([
+                findModuleByName(context, outputChannel, firstPortal, moduleType, moduleName),
+                findModuleByName(context, outputChannel, secondPortal, moduleType, moduleName)
+            ]);
+            if (!firstDefinition || !secondDefinition) {
+                vscode.window.showErrorMessage(`${moduleTypeInfo.label} '${moduleName}' was not found on ${!firstDefinition ? firstPortalName : secondPortalName}.`);
+                return;
+            }
+
+            const firstNormalized = normalizeDefinition(firstDefinition);
+            const secondNormalized = normalizeDefinition(secondDefinition);
+            const firstFiles = extractModuleFiles(moduleType, moduleName, firstNormalized);
+            const secondFiles = extractModuleFiles(moduleType, moduleName, secondNormalized);
+
+            const summary = summarizeDefinitionDifferences(firstNormalized, secondNormalized, firstPortalName, secondPortalName);
+            outputChannel.appendLine(`
+--- Portal Comparison: ${moduleName} (${firstPortalName} ↔ ${secondPortalName}) ---`);
+            if (summary.length > 0) {
+                summary.forEach(line => outputChannel.appendLine(line));
+            } else {
+                outputChannel.appendLine('No differences found.');
+            }
+            outputChannel.appendLine(`--- End Portal Comparison ---`);
+            outputChannel.show(true);
+
+            for (const fileName of new Set([...Object.keys(firstFiles), ...Object.keys(secondFiles)])) {
+                if (firstFiles[fileName] === secondFiles[fileName]) {
+                    continue;
+                }
+                const firstUri = portalContentProvider.setContent(firstPortalName, moduleName, fileName, firstFiles[fileName] ?? '');
+                const secondUri = portalContentProvider.setContent(secondPortalName, moduleName, fileName, secondFiles[fileName] ?? '');
+                await showDiff(`${fileName} (${firstPortalName} ↔ ${secondPortalName})`, firstUri, secondUri);
+            }
+
+            if (summary.length === 0) {
+                vscode.window.showInformationMessage(`${moduleTypeInfo.label} '${moduleName}' is identical on ${firstPortalName} and ${secondPortalName}.`);
+            }
+        } catch (error: any) {
+            outputChannel.appendLine(`
+--- Portal Comparison Error ---`);
+            outputChannel.appendLine(`Error: ${error.message}`);
+            outputChannel.appendLine(`--- End Portal Comparison Error ---`);
+            vscode.window.showErrorMessage(`Failed to compare ${moduleTypeInfo.label} '${moduleName}' across portals: ${error.message}`);
+        }
+    });
+
+    let copyToPortal = vscode.commands.registerCommand('logicmonitor.copyToPortal', async (target?: string | vscode.TreeItem) => {
+        const portals = await getCredentials(context);
+        if (!portals) {
+            return;
+        }
+
+        let moduleType: string | undefined;
+        let sourcePortalName: string | undefined;
+        let moduleDefinition: any;
+
+        try {
+            const remoteType = typeof target === 'object' ? Object.entries(MODULE_TYPES).find(([_, info]) => info.remoteContextValue === target.contextValue)?.[0] : undefined;
+            if (remoteType && typeof target === 'object') {
+                // Remote module item: fetch the definition from the active portal
+                const moduleIdMatch = target.id?.match(/-(\d+)$/);
+                sourcePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
+                const sourcePortal = portals.find(([name, _]) => name === sourcePortalName)?.[1];
+                if (!moduleIdMatch || !sourcePortal) {
+                    vscode.window.showErrorMessage('Could not determine the module or its portal from the selected item.');
+                    return;
+                }
+                moduleType = remoteType;
+                moduleDefinition = await makeApiRequest(context, outputChannel, sourcePortal, 'GET', `${MODULE_TYPES[moduleType].resourcePath}/${moduleIdMatch[1]}`, null, { format: 'json' });
+            } else {
+                const modulePath = await resolveModulePath(target);
+                if (!modulePath) {
+                    return;
+                }
+                const manifest = readManifest(modulePath);
+                if (!manifest || !MODULE_TYPES[manifest.moduleType]) {
+                    vscode.window.showErrorMessage(`Could not read manifest.json in ${modulePath}. Please pull the module first.`);
+                    return;
+                }
+                moduleType = manifest.moduleType;
+                sourcePortalName = manifest.portal;
+                moduleDefinition = buildModulePayload(modulePath, manifest);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to read the module to copy: ${error.message}`);
+            return;
+        }
+
+        const moduleTypeInfo = MODULE_TYPES[moduleType];
+        const moduleName: string = moduleDefinition.name;
+
+        const targetPortalName = await vscode.window.showQuickPick(
+            portals.map(([name, _]) => name).filter(name => name !== sourcePortalName),
+            { placeHolder: `Copy ${moduleTypeInfo.label} '${moduleName}' to which portal?` }
+        );
+        if (!targetPortalName) {
+            return;
+        }
+        const targetPortal = portals.find(([name, _]) => name === targetPortalName)?.[1];
+        if (!targetPortal) {
+            vscode.window.showErrorMessage(`Portal details for ${targetPortalName} not found.`);
+            return;
+        }
+
+        try {
+            // normalizeDefinition drops the ids, versions and timestamps that belong to the source portal
+            const payload = normalizeDefinition(moduleDefinition);
+            const existingDefinition = await findModuleByName(context, outputChannel, targetPortal, moduleType, moduleName);
+
+            if (existingDefinition) {
+                const overwrite = await vscode.window.showWarningMessage(
+                    `${moduleTypeInfo.label} '${moduleName}' already exists on ${targetPortalName}. Overwrite it?`,
+                    { modal: true },
+                    OVERWRITE_CHOICE
+                );
+                if (overwrite !== OVERWRITE_CHOICE) {
+                    return;
+                }
+
+                // Reuse the target's datapoint ids so existing datapoints are updated rather than replaced
+                if (Array.isArray(payload.dataPoints) && Array.isArray(existingDefinition.dataPoints)) {
+                    for (const dataPoint of payload.dataPoints) {
+                        const existingDataPoint = existingDefinition.dataPoints.find((dp: any) => dp.name === dataPoint.name);
+                        if (existingDataPoint) {
+                            dataPoint.id = existingDataPoint.id;
+                        }
+                    }
+                }
+
+                await makeApiRequest(context, outputChannel, targetPortal, 'PATCH', `${moduleTypeInfo.resourcePath}/${existingDefinition.id}`, payload);
+                vscode.window.showInformationMessage(`${moduleTypeInfo.label} '${moduleName}' updated on ${targetPortalName}.`);
+            } else {
+                await makeApiRequest(context, outputChannel, targetPortal, 'POST', moduleTypeInfo.resourcePath, payload);
+                vscode.window.showInformationMessage(`${moduleTypeInfo.label} '${moduleName}' created on ${targetPortalName}.`);
+            }
+        } catch (error: any) {
+            outputChannel.appendLine(`
+--- Copy ${moduleTypeInfo.label} Error ---`);
+            outputChannel.appendLine(`Error: ${error.message}`);
+            outputChannel.appendLine(`--- End Copy ${moduleTypeInfo.label} Error ---`);
+            vscode.window.showErrorMessage(`Failed to copy ${moduleTypeInfo.label} '${moduleName}' to ${targetPortalName}: ${error.message}`);
+            outputChannel.show();
+        }
+    });
+
+    let searchModules = vscode.commands.registerCommand('logicmonitor.searchModules', async () => {
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
+
+        if (!activePortalName) {
+            vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
+            return;
+        }
+
+        const portalDetails = (await getCredentials(context))?.find(([name, _]) => name === activePortalName)?.[1];
+
+        if (!portalDetails) {
+            vscode.window.showErrorMessage(`Portal details for ${activePortalName} not found.`);
+            return;
+        }
+
+        const pullButton = { iconPath: new vscode.ThemeIcon('cloud-download'), tooltip: 'Pull' };
+        const openInPortalButton = { iconPath: new vscode.ThemeIcon('link-external'), tooltip: 'Open in Portal' };
+        const compareButton = { iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Compare' };
+
+        type ModulePick = vscode.QuickPickItem & { moduleType: string, module: RemoteModule };
+        const quickPick = vscode.window.createQuickPick<ModulePick>();
+        quickPick.placeholder = 'Search all module types by name, display name, group, description or AppliesTo';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        let searchTimer: NodeJS.Timeout | undefined;
+        let latestSearch = 0;
+        quickPick.onDidChangeValue(value => {
+            if (searchTimer) {
+                clearTimeout(searchTimer);
+            }
+            if (value.trim().length < 2) {
+                quickPick.items = [];
+                return;
+            }
+            // Wait for a pause in typing, and ignore responses to searches that have since been superseded
+            searchTimer = setTimeout(async () => {
+                const search = ++latestSearch;
+                const query = value.trim().replace(/"/g, '');
+                quickPick.busy = true;
+                const results = await Promise.all(Object.entries(MODULE_TYPES).map(async ([moduleType, moduleTypeInfo]) => {
+                    try {
+                        const response = await makeApiRequest(context, outputChannel, portalDetails, 'GET', moduleTypeInfo.resourcePath, null, {
+                            size: '50',
+                            fields: moduleTypeInfo.searchFields.filter(field => field !== 'code').concat('id').join(','),
+                            filter: moduleTypeInfo.searchFields.map(field => `${field}~"${query}"`).join('||')
+                        });
+                        return (response?.items || []).map((module: ModulePick['module']) => ({
+                            label: module.displayName && module.displayName !== module.name ? `${module.displayName} (${module.name})` : module.name,
+                            description: moduleTypeInfo.label,
+                            detail: module.group || undefined,
+                            buttons: [pullButton, openInPortalButton, compareButton],
+                            moduleType,
+                            module
+                        }));
+                    } catch (error) {
+                        return [];
+                    }
+                }));
+                if (search === latestSearch) {
+                    quickPick.items = results.flat();
+                    quickPick.busy = false;
+                }
+            }, 300);
+        });
+
+        const runAction = async (pick: ModulePick, button: vscode.QuickInputButton) => {
+            const moduleTypeInfo = MODULE_TYPES[pick.moduleType];
+            if (button === pullButton) {
+                // The pull commands take the id and name from a Remote branch item, so hand them an equivalent one
+                const showsDisplayName = moduleTypeInfo.remoteListFields.includes('displayName') && pick.module.displayName;
+                const item = new vscode.TreeItem(showsDisplayName ? `${pick.module.displayName} (${pick.module.name})` : pick.module.name);
+                item.id = `${moduleTypeInfo.remoteContextValue}-${pick.module.id}`;
+                await vscode.commands.executeCommand(moduleTypeInfo.pullCommand, item);
+            } else if (button === openInPortalButton) {
+                const portalUiUrl = getBaseUrl(portalDetails).replace(/\/rest$/, '');
+                await vscode.env.openExternal(vscode.Uri.parse(`${portalUiUrl}/uiv4/exchange/toolbox/${moduleTypeInfo.portalUiPath}/${pick.module.id}`));
+            } else {
+                const modulePath = findLocalModule(pick.moduleType, activePortalName, pick.module.id);
+                if (modulePath) {
+                    await vscode.commands.executeCommand('logicmonitor.compareWithPortal', modulePath);
+                } else {
+                    // Nothing pulled to compare against locally, so compare it with another portal instead
+                    await vscode.commands.executeCommand('logicmonitor.comparePortals', pick.moduleType, pick.module.name, activePortalName);
+                }
+            }
+        };
+
+        const picked = await new Promise<{ pick: ModulePick, button: vscode.QuickInputButton } | undefined>(resolve => {
+            quickPick.onDidAccept(() => {
+                const pick = quickPick.selectedItems[0];
+                resolve(pick ? { pick, button: pullButton } : undefined);
+            });
+            quickPick.onDidTriggerItemButton(event => resolve({ pick: event.item, button: event.button }));
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+        if (picked) {
+            await runAction(picked.pick, picked.button);
+        }
+    });
+
+    let bulkPull = vscode.commands.registerCommand('logicmonitor.bulkPull', async () => {
+        const activePortalName = getSetting<string>(context, 'logicmonitor.activePortal');
+
+        if (!activePortalName) {
+            vscode.window.showErrorMessage('Please select an active portal in the LogicMonitor sidebar.');
+            return;
+        }
+
+        const portalDetails = (await getCredentials(context))?.find(([name, _]) => name === activePortalName)?.[1];
+
+        if (!portalDetails) {
+            vscode.window.showErrorMessage(`Portal details for ${activePortalName} not found.`);
+            return;
+        }
+
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder open. Cannot save modules.');
+            return;
+        }
+        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+        const typePicks = await vscode.window.showQuickPick(
+            Object.entries(MODULE_TYPES).map(([type, info]) => ({ label: info.label, moduleType: type, picked: type === 'DataSource' })),
+            { placeHolder: 'Select the module types to pull', canPickMany: true }
+        );
+        if (!typePicks || typePicks.length === 0) {
+            return;
+        }
+
+        const filterField = await vscode.window.showQuickPick(
+            [
+                { label: 'All modules', field: undefined },
+                { label: 'Name contains...', field: 'name' },
+                { label: 'Group contains...', field: 'group' },
+                { label: 'AppliesTo contains...', field: 'appliesTo' }
+            ],
+            { placeHolder: 'Filter the modules to pull' }
+        );
+        if (!filterField) {
+            return;
+        }
+
+        let filter: string | undefined;
+        if (filterField.field) {
+            const filterValue = await vscode.window.showInputBox({ prompt: filterField.label, ignoreFocusOut: true });
+            if (!filterValue) {
+                return;
+            }
+            filter = `${filterField.field}~"${filterValue}"`;
+        }
+
+        const pulled: string[] = [];
+        const skipped: string[] = [];
+        const failed: string[] = [];
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "LogicMonitor: Pulling Modules",
+            cancellable: true
+        }, async (progress, token) => {
+            const modulesToPull: { moduleType: string, id: number, name: string }[] = [];
+            for (const { moduleType } of typePicks) {
+                if (token.isCancellationRequested) {
+                    return;
+                }
+                progress.report({ message: `Listing ${MODULE_TYPES[moduleType].label}s...` });
+                try {
+                    const queryParams: { [key: string]: string } = { fields: 'id,name' };
+                    if (filter) {
+                        queryParams.filter = filter;
+                    }
+                    const modules = await fetchAllPages<RemoteModule>(context, outputChannel, portalDetails, MODULE_TYPES[moduleType].resourcePath, queryParams);
+                    modulesToPull.push(...modules.map(module => ({ moduleType, ...module })));
+                } catch (error: any) {
+                    failed.push(`${MODULE_TYPES[moduleType].label}s: ${error.message}`);
+                }
+            }
+
+            let completed = 0;
+            await runWithConcurrency(modulesToPull, BULK_PULL_CONCURRENCY, token, async ({ moduleType, id, name }) => {
+                const moduleTypeInfo = MODULE_TYPES[moduleType];
+                try {
+                    const moduleDefinition = await makeApiRequest(context, outputChannel, portalDetails, 'GET', `${moduleTypeInfo.resourcePath}/${id}`, null, { format: 'json' });
+                    const moduleDir = path.join(workspaceRoot, name);
+                    const existingManifest = readManifest(moduleDir);
+                    if (existingManifest && getFilesOverwrittenByPull(moduleDir, existingManifest, extractModuleFiles(moduleType, name, moduleDefinition)).length > 0) {
+                        skipped.push(`${moduleTypeInfo.label} '${name}' (has local changes)`);
+                    } else {
+                        saveModuleLocally(moduleDir, moduleType, name, moduleDefinition, activePortalName);
+                        pulled.push(`${moduleTypeInfo.label} '${name}'`);
+                    }
+                } catch (error: any) {
+                    failed.push(`${moduleTypeInfo.label} '${name}': ${error.message}`);
+                }
+                completed++;
+                progress.report({ message: `${completed}/${modulesToPull.length} ${name}`, increment: 100 / modulesToPull.length });
+            });
+        });
+
+        outputChannel.appendLine(`
+--- Bulk Pull Summary (${activePortalName}) ---`);
+        outputChannel.appendLine(`Pulled: ${pulled.length}`);
+        pulled.forEach(line => outputChannel.appendLine(`  ${line}`));
+        outputChannel.appendLine(`Skipped: ${skipped.length}`);
+        skipped.forEach(line => outputChannel.appendLine(`  ${line}`));
+        outputChannel.appendLine(`Failed: ${failed.length}`);
+        failed.forEach(line => outputChannel.appendLine(`  ${line}`));
+        outputChannel.appendLine(`--- End Bulk Pull Summary ---`);
+        outputChannel.show();
+
+        const summary = `Pulled ${pulled.length} module(s), skipped ${skipped.length}, failed ${failed.length}.`;
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(summary);
+        } else {
+            vscode.window.showInformationMessage(summary);
+        }
+        modulesProvider.refresh();
+    });
+
+    let syncAll = vscode.commands.registerCommand('logicmonitor.syncAll', async () => {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder open. There are no local modules to sync.');
+            return;
+        }
+        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+        const portals = await getCredentials(context);
+        if (!portals) {
+            return;
+        }
+
+        const localModules: { manifest: Manifest, modulePath: string }[] = [];
+        for (const manifestPath of findManifestFiles(workspaceRoot)) {
+            const manifest = readManifest(path.dirname(manifestPath));
+            if (manifest && MODULE_TYPES[manifest.moduleType]) {
+                localModules.push({ manifest, modulePath: path.dirname(manifestPath) });
+            }
+        }
+        if (localModules.length === 0) {
+            vscode.window.showInformationMessage('No locally pulled modules found in the workspace.');
+            return;
+        }
+
+        const results: { manifest: Manifest, modulePath: string, status: ModuleSyncStatus, remoteDefinition?: any, detail?: string }[] = [];
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "LogicMonitor: Syncing Modules",
+            cancellable: true
+        }, async (progress, token) => {
+            let completed = 0;
+            await runWithConcurrency(localModules, BULK_PULL_CONCURRENCY, token, async ({ manifest, modulePath }) => {
+                const portalDetails = portals.find(([name, _]) => name === manifest.portal)?.[1];
+                let result: typeof results[number];
+                if (!portalDetails) {
+                    result = { manifest, modulePath, status: 'error', detail: `portal ${manifest.portal} not found` };
+                } else {
+                    try {
+                        const remoteDefinition = await makeApiRequest(context, outputChannel, portalDetails, 'GET', `${MODULE_TYPES[manifest.moduleType].resourcePath}/${manifest.id}`, null, { format: 'json' });
+                        const locallyModified = getFilesOverwrittenByPull(modulePath, manifest, extractModuleFiles(manifest.moduleType, manifest.name, remoteDefinition)).length > 0;
+                        // Without a recorded hash, any difference from the portal shows up as a local modification
+                        const remotelyModified = !!manifest.remoteHash && hashContent(JSON.stringify(remoteDefinition, null, 2)) !== manifest.remoteHash;
+                        const status: ModuleSyncStatus = locallyModified && remotelyModified ? 'conflict'
+                            : locallyModified ? 'localModified'
+                            : remotelyModified ? 'remoteModified'
+                            : 'upToDate';
+                        result = { manifest, modulePath, status, remoteDefinition };
+                    } catch (error: any) {
+                        result = { manifest, modulePath, status: 'error', detail: error.message };
+                    }
+                }
+                results.push(result);
+                moduleStatusDecorationProvider.setStatus(modulePath, result.status);
+
+                completed++;
+                progress.report({ message: `${completed}/${localModules.length} ${manifest.name}`, increment: 100 / localModules.length });
+            });
+        });
+
+        outputChannel.appendLine(`
+--- Sync Status ---`);
+        for (const status of Object.keys(MODULE_SYNC_STATUS_LABELS) as ModuleSyncStatus[]) {
+            const matching = results.filter(result => result.status === status);
+            if (matching.length === 0) {
+                continue;
+            }
+            outputChannel.appendLine(`${MODULE_SYNC_STATUS_LABELS[status]}: ${matching.length}`);
+            matching.forEach(result => outputChannel.appendLine(`  ${MODULE_TYPES[result.manifest.moduleType].label} '${result.manifest.name}' (${result.manifest.portal})${result.detail ? ` - ${result.detail}` : ''}`));
+        }
+        outputChannel.appendLine(`--- End Sync Status ---`);
+        outputChannel.show();
+        modulesProvider.refresh();
+
+        // Modules only changed on the portal can be refreshed without risking local work
+        const refreshable = results.filter(result => result.status === 'remoteModified');
+        if (refreshable.length === 0) {
+            vscode.window.showInformationMessage(`Checked ${results.length} module(s). See the Output channel for details.`);
+            return;
+        }
+
+        const refreshChoice = await vscode.window.showInformationMessage(
+            `${refreshable.length} module(s) changed on the portal and have no local edits. Pull the latest versions?`,
+            'Pull'
+        );
+        if (refreshChoice !== 'Pull') {
+            return;
+        }
+        for (const { manifest, modulePath, remoteDefinition } of refreshable) {
+            saveModuleLocally(modulePath, manifest.moduleType, manifest.name, remoteDefinition, manifest.portal);
+            moduleStatusDecorationProvider.setStatus(modulePath, 'upToDate');
+        }
+        vscode.window.showInformationMessage(`Pulled ${refreshable.length} module(s).`);
+        modulesProvider.refresh();
+    });
+
     context.subscriptions.push(setCredentials);
+    context.subscriptions.push(addPortal);
+    context.subscriptions.push(removePortal);
+    context.subscriptions.push(migrateCredentials);
     context.subscriptions.push(setActivePortal);
     context.subscriptions.push(setActiveDevice);
+    context.subscriptions.push(findDevice);
     context.subscriptions.push(runActiveScript);
+    context.subscriptions.push(setActiveInstance);
+    context.subscriptions.push(clearDiscoveryResults);
+    context.subscriptions.push(runCollectionForInstance);
     context.subscriptions.push(toggleDebug);
+    context.subscriptions.push(saveWorkspaceConfig);
+    context.subscriptions.push(toggleNavigationMode);
+    context.subscriptions.push(refreshTreeItem);
+    context.subscriptions.push(setRemoteGrouping);
     context.subscriptions.push(pullDataSource);
     context.subscriptions.push(openLocalModule);
     context.subscriptions.push(pullEventSource);
@@ -1978,6 +3803,13 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(pullTopologySource);
     context.subscriptions.push(pullLogSource);
     context.subscriptions.push(pullAppliesToFunction);
+    context.subscriptions.push(push);
+    context.subscriptions.push(compareWithPortal);
+    context.subscriptions.push(comparePortals);
+    context.subscriptions.push(copyToPortal);
+    context.subscriptions.push(searchModules);
+    context.subscriptions.push(bulkPull);
+    context.subscriptions.push(syncAll);
 }
 
 export function deactivate() {
@@ -1996,4 +3828,301 @@ function findManifestFiles(dir: string, fileList: string[] = []) {
         }
     });
     return fileList;
-}
\ No newline at end of file
+}
+function findModuleDirectory(startDir: string): string | undefined {
+    let dir = startDir;
+    while (true) {
+        if (fs.existsSync(path.join(dir, 'manifest.json'))) {
+            return dir;
+        }
+        const parentDir = path.dirname(dir);
+        if (parentDir === dir) {
+            return undefined;
+        }
+        dir = parentDir;
+    }
+}
+
+// Works out which local module a command applies to: an explicit path, a Local module item,
+// the module containing the active editor, or a folder picked by the user
+async function resolveModulePath(target?: string | vscode.TreeItem): Promise<string | undefined> {
+    if (typeof target === 'string') {
+        return target;
+    }
+    if (target && target.resourceUri) {
+        return target.resourceUri.fsPath;
+    }
+
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor && activeEditor.document.uri.scheme === 'file') {
+        const modulePath = findModuleDirectory(path.dirname(activeEditor.document.uri.fsPath));
+        if (modulePath) {
+            return modulePath;
+        }
+    }
+
+    const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Select module folder'
+    });
+    return folders && folders.length > 0 ? folders[0].fsPath : undefined;
+}
+
+// Finds the workspace folder a remote module was pulled into, if it has been pulled
+function findLocalModule(moduleType: string, portalName: string, moduleId: number): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+        return undefined;
+    }
+    return findManifestFiles(workspaceFolders[0].uri.fsPath)
+        .map(manifestPath => path.dirname(manifestPath))
+        .find(modulePath => {
+            const manifest = readManifest(modulePath);
+            return manifest?.moduleType === moduleType && manifest.portal === portalName && manifest.id === String(moduleId);
+        });
+}
+
+function readManifest(modulePath: string): Manifest | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(modulePath, 'manifest.json'), 'utf-8'));
+    } catch (error) {
+        return undefined;
+    }
+}
+
+function setNestedField(target: any, fieldPath: string[], value: any): void {
+    let current = target;
+    for (const key of fieldPath.slice(0, -1)) {
+        if (typeof current[key] !== 'object' || current[key] === null) {
+            current[key] = {};
+        }
+        current = current[key];
+    }
+    current[fieldPath[fieldPath.length - 1]] = value;
+}
+
+// The definition field a module's script file is stored in (e.g. "collectorAttribute.groovyScript"), whichever
+// language the file is written in
+function getScriptFieldPath(moduleType: string, fileName: string): string | undefined {
+    return MODULE_TYPES[moduleType]?.scripts.find(script => script.fileName === fileName)?.fieldPath.join('.');
+}
+
+// Reads the local definition file and merges any script files found next to it back into their fields
+function buildModulePayload(modulePath: string, manifest: Manifest): any {
+    const moduleDefinition = JSON.parse(fs.readFileSync(path.join(modulePath, `${manifest.name}.json`), 'utf-8'));
+    const moduleTypeInfo = MODULE_TYPES[manifest.moduleType];
+
+    for (const script of moduleTypeInfo?.scripts || []) {
+        const scriptFilePath = path.join(modulePath, script.fileName);
+        // A stale .ps1 or .groovy left by an earlier pull mustn't replace the script for the definition's current scriptType
+        if (fs.existsSync(scriptFilePath) && (!script.applies || script.applies(moduleDefinition))) {
+            setNestedField(moduleDefinition, script.fieldPath, fs.readFileSync(scriptFilePath, 'utf-8'));
+        }
+    }
+    return moduleDefinition;
+}
+
+function getNestedField(source: any, fieldPath: string[]): any {
+    return fieldPath.reduce((current, key) => (current === undefined || current === null) ? undefined : current[key], source);
+}
+
+// Returns the files a pull writes for this module, keyed by file name
+function extractModuleFiles(moduleType: string, moduleName: string, moduleDefinition: any): { [fileName: string]: string } {
+    const files: { [fileName: string]: string } = {};
+    files[`${moduleName}.json`] = JSON.stringify(moduleDefinition, null, 2);
+
+    for (const script of MODULE_TYPES[moduleType]?.scripts || []) {
+        const scriptContent = getNestedField(moduleDefinition, script.fieldPath);
+        if (typeof scriptContent === 'string' && scriptContent && (!script.applies || script.applies(moduleDefinition))) {
+            files[script.fileName] = scriptContent;
+        }
+    }
+    return files;
+}
+
+function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function getManifestHashes(moduleType: string, moduleName: string, moduleDefinition: any): Pick<Manifest, 'remoteHash' | 'remoteVersion' | 'fileHashes'> {
+    const fileHashes: { [fileName: string]: string } = {};
+    for (const [fileName, content] of Object.entries(extractModuleFiles(moduleType, moduleName, moduleDefinition))) {
+        fileHashes[fileName] = hashContent(content);
+    }
+    return {
+        remoteHash: hashContent(JSON.stringify(moduleDefinition, null, 2)),
+        remoteVersion: moduleDefinition.version,
+        fileHashes
+    };
+}
+
+// Lists the files in a module folder whose content no longer matches the given hashes
+function getLocallyModifiedFiles(modulePath: string, fileHashes: { [fileName: string]: string }): string[] {
+    return Object.keys(fileHashes).filter(fileName => {
+        const filePath = path.join(modulePath, fileName);
+        return fs.existsSync(filePath) && hashContent(fs.readFileSync(filePath, 'utf-8')) !== fileHashes[fileName];
+    });
+}
+
+async function showDiff(title: string, left: vscode.Uri, right: vscode.Uri): Promise<void> {
+    await vscode.commands.executeCommand('vscode.diff', left, right, title);
+}
+
+const OVERWRITE_CHOICE: vscode.MessageItem = { title: 'Overwrite' };
+const SHOW_DIFF_CHOICE: vscode.MessageItem = { title: 'Show Diff' };
+const ABORT_CHOICE: vscode.MessageItem = { title: 'Abort', isCloseAffordance: true };
+
+// Lists the local files a pull would overwrite that were edited since the module was last pulled
+function getFilesOverwrittenByPull(moduleDir: string, manifest: Manifest, incomingFiles: { [fileName: string]: string }): string[] {
+    // Manifests written before hashes were recorded can only be compared against the incoming files
+    const fileHashes = manifest.fileHashes || Object.fromEntries(Object.entries(incomingFiles).map(([fileName, content]) => [fileName, hashContent(content)]));
+    return getLocallyModifiedFiles(moduleDir, fileHashes);
+}
+
+// Called by the pull commands before writing into an existing module folder
+async function confirmLocalOverwrite(contentProvider: PortalContentProvider, moduleDir: string, moduleType: string, moduleName: string, moduleDefinition: any): Promise<boolean> {
+    const manifest = readManifest(moduleDir);
+    if (!manifest) {
+        return true;
+    }
+
+    const incomingFiles = extractModuleFiles(moduleType, moduleName, moduleDefinition);
+    const modifiedFiles = getFilesOverwrittenByPull(moduleDir, manifest, incomingFiles);
+    if (modifiedFiles.length === 0) {
+        return true;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+        `'${moduleName}' has local changes that will be overwritten by this pull: ${modifiedFiles.join(', ')}`,
+        { modal: true },
+        OVERWRITE_CHOICE, SHOW_DIFF_CHOICE, ABORT_CHOICE
+    );
+    if (choice === OVERWRITE_CHOICE) {
+        return true;
+    }
+    if (choice === SHOW_DIFF_CHOICE) {
+        for (const fileName of modifiedFiles) {
+            const incomingUri = contentProvider.setContent(manifest.portal, moduleName, fileName, incomingFiles[fileName] ?? '');
+            await showDiff(`${fileName} (Local ↔ ${manifest.portal})`, vscode.Uri.file(path.join(moduleDir, fileName)), incomingUri);
+        }
+    }
+    return false;
+}
+
+// Called by push to make sure nobody changed the module on the portal since it was pulled
+async function confirmRemoteOverwrite(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel,
+    contentProvider: PortalContentProvider,
+    portalDetails: Portal,
+    manifest: Manifest,
+    localDefinition: any
+): Promise<boolean> {
+    if (!manifest.remoteHash) {
+        return true;
+    }
+
+    const moduleTypeInfo = MODULE_TYPES[manifest.moduleType];
+    const liveDefinition = await makeApiRequest(context, outputChannel, portalDetails, 'GET', `${moduleTypeInfo.resourcePath}/${manifest.id}`, null, { format: 'json' });
+    const liveContent = JSON.stringify(liveDefinition, null, 2);
+    if (hashContent(liveContent) === manifest.remoteHash) {
+        return true;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+        `${moduleTypeInfo.label} '${manifest.name}' has changed on ${manifest.portal} since it was last pulled. Pushing will overwrite those changes.`,
+        { modal: true },
+        OVERWRITE_CHOICE, SHOW_DIFF_CHOICE, ABORT_CHOICE
+    );
+    if (choice === OVERWRITE_CHOICE) {
+        return true;
+    }
+    if (choice === SHOW_DIFF_CHOICE) {
+        const fileName = `${manifest.name}.json`;
+        const liveUri = contentProvider.setContent(manifest.portal, manifest.name, fileName, liveContent);
+        const localUri = contentProvider.setContent('local', manifest.name, fileName, JSON.stringify(localDefinition, null, 2));
+        await showDiff(`${fileName} (${manifest.portal} ↔ Local)`, liveUri, localUri);
+    }
+    return false;
+}
+
+// Writes a module's definition, scripts and manifest. Every pull goes through here so single and bulk pulls write the same files.
+function saveModuleLocally(moduleDir: string, moduleType: string, moduleName: string, moduleDefinition: any, portalName: string): void {
+    if (!fs.existsSync(moduleDir)) {
+        fs.mkdirSync(moduleDir, { recursive: true });
+    }
+
+    for (const [fileName, content] of Object.entries(extractModuleFiles(moduleType, moduleName, moduleDefinition))) {
+        fs.writeFileSync(path.join(moduleDir, fileName), content);
+    }
+
+    const manifestContent: Manifest = {
+        name: moduleName,
+        displayName: moduleDefinition.displayName || moduleName,
+        id: String(moduleDefinition.id),
+        portal: portalName,
+        moduleType: moduleType,
+        pullDate: new Date().toISOString(),
+        ...getManifestHashes(moduleType, moduleName, moduleDefinition)
+    };
+    fs.writeFileSync(path.join(moduleDir, 'manifest.json'), JSON.stringify(manifestContent, null, 2));
+}
+
+// Runs worker over items with at most `limit` in flight, stopping early once the token is cancelled
+async function runWithConcurrency<T>(items: T[], limit: number, token: vscode.CancellationToken, worker: (item: T) => Promise<void>): Promise<void> {
+    let nextIndex = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (nextIndex < items.length && !token.isCancellationRequested) {
+            await worker(items[nextIndex++]);
+        }
+    });
+    await Promise.all(runners);
+}
+
+function getRemoteModuleLabel(module: RemoteModule): string {
+    return module.displayName || module.name;
+}
+
+function getRemoteModuleGroup(module: RemoteModule, grouping: RemoteModuleGrouping): string {
+    switch (grouping) {
+        case 'group':
+            return module.group || 'Ungrouped';
+        case 'collectMethod':
+            return module.collectMethod || 'unknown';
+        default:
+            return getRemoteModuleLabel(module).charAt(0).toUpperCase();
+    }
+}
+
+// Enough detail to tell similar modules apart without pulling them
+function getRemoteModuleTooltip(module: RemoteModule): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${module.displayName || module.name}**`);
+    if (module.displayName && module.displayName !== module.name) {
+        tooltip.appendText(` (${module.name})`);
+    }
+    tooltip.appendMarkdown('\n\n');
+    const details = [
+        `ID: ${module.id}`,
+        module.version !== undefined ? `Version: ${module.version}` : undefined,
+        module.group ? `Group: ${module.group}` : undefined,
+        module.collectMethod ? `Collect method: ${module.collectMethod}` : undefined
+    ].filter(detail => detail !== undefined);
+    tooltip.appendText(details.join(' | '));
+    if (module.appliesTo) {
+        tooltip.appendMarkdown('\n\nAppliesTo:');
+        tooltip.appendCodeblock(module.appliesTo, 'text');
+    }
+    if (module.description) {
+        tooltip.appendMarkdown('\n\n');
+        tooltip.appendText(module.description);
+    }
+    return tooltip;
+}
+
+// e.g. 'datasource-group-' for the first-letter buckets under DataSources
+function getRemoteGroupIdPrefix(moduleTypeInfo: ModuleTypeInfo): string {
+    return `${moduleTypeInfo.remoteContextValue.replace('remote-', '')}-group-`;
+}
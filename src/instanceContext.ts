@@ -0,0 +1,59 @@
+// Builds the instance context a collector gives a script: wildvalue tokens and the Groovy bindings it sets
+
+// Tokens only an instance can give a value, substituted by applyInstanceContext
+export const INSTANCE_TOKENS = ['WILDVALUE', 'WILDVALUEBASE64', 'WILDVALUE2', 'WILDALIAS', 'DSIDESCRIPTION'];
+
+// Gives a script the instance context a collector would: ##WILDVALUE##-style tokens are substituted and, for
+// Groovy, instanceProps is bound. The binding is one extra line after the script's imports.
+export function applyInstanceContext(script: string, scriptType: string, instanceProps: { [name: string]: string }): string {
+    // Function replacers, since $& and the like are common in Windows and SQL instance names
+    const substituted = script
+        .replace(/##WILDVALUE##/gi, () => instanceProps.wildvalue)
+        .replace(/##WILDVALUEBASE64##/gi, () => Buffer.from(instanceProps.wildvalue).toString('base64'))
+        .replace(/##WILDVALUE2##/gi, () => instanceProps.wildvalue2)
+        .replace(/##WILDALIAS##/gi, () => instanceProps.wildalias)
+        .replace(/##DSIDESCRIPTION##/gi, () => instanceProps.description);
+    if (scriptType !== '!groovy') {
+        return substituted;
+    }
+    return insertGroovyBinding(substituted, `instanceProps = ${toGroovyMap(instanceProps)}`);
+}
+
+// Gives a BATCHSCRIPT Groovy script the datasourceinstanceProps binding the collector gives it: a list of
+// instance properties per wildvalue. Wildvalue tokens aren't substituted since no single instance is being run.
+export function applyBatchInstanceContext(script: string, batchProps: { [wildValue: string]: { [name: string]: string } }): string {
+    const entries = Object.entries(batchProps).map(([wildValue, instanceProps]) => `${toGroovyString(wildValue)}: [${toGroovyMap(instanceProps)}]`);
+    return insertGroovyBinding(script, `datasourceinstanceProps = [${entries.length > 0 ? entries.join(', ') : ':'}]`);
+}
+
+export function toGroovyString(value: string): string {
+    return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
+
+export function toGroovyMap(values: { [name: string]: string }): string {
+    const entries = Object.entries(values).map(([name, value]) => `${toGroovyString(name)}: ${toGroovyString(value)}`);
+    return `[${entries.length > 0 ? entries.join(', ') : ':'}]`;
+}
+
+// Adds a binding as one line after the script's imports. It is assigned without def so it lands in the script
+// binding, where the collector puts it.
+export function insertGroovyBinding(script: string, binding: string): string {
+    // Groovy only allows imports before the first statement, so skip past them (and any leading comments)
+    const lines = script.split('\n');
+    let insertAt = 0;
+    let inBlockComment = false;
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (inBlockComment) {
+            inBlockComment = !line.includes('*/');
+        } else if (line.startsWith('/*')) {
+            inBlockComment = !line.includes('*/');
+        } else if (line.startsWith('import ') || line.startsWith('package ')) {
+            insertAt = i + 1;
+        } else if (line !== '' && !line.startsWith('//')) {
+            break;
+        }
+    }
+    lines.splice(insertAt, 0, binding);
+    return lines.join('\n');
+}
@@ -0,0 +1,56 @@
+// Comparison of module definitions fetched from different portals
+
+// Fields that differ between portals even when the module content is the same
+const VOLATILE_FIELDS = new Set(['id', 'dataSourceId', 'version', 'checksum', 'registeredOn', 'modifiedOn', 'createdOn', 'updatedOn', 'installationMetadata']);
+
+// Strips volatile fields and sorts keys so two portals' copies of a module can be compared directly
+export function normalizeDefinition(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(normalizeDefinition);
+    }
+    if (typeof value === 'object' && value !== null) {
+        const normalized: any = {};
+        for (const key of Object.keys(value).sort()) {
+            if (!VOLATILE_FIELDS.has(key)) {
+                normalized[key] = normalizeDefinition(value[key]);
+            }
+        }
+        return normalized;
+    }
+    return value;
+}
+
+export function summarizeDefinitionDifferences(first: any, second: any, firstLabel: string, secondLabel: string): string[] {
+    const summary: string[] = [];
+
+    const changedFields = [...new Set([...Object.keys(first), ...Object.keys(second)])]
+        .filter(key => key !== 'dataPoints' && JSON.stringify(first[key]) !== JSON.stringify(second[key]));
+    if (changedFields.length > 0) {
+        summary.push(`Fields that differ: ${changedFields.join(', ')}`);
+    }
+
+    if (Array.isArray(first.dataPoints) || Array.isArray(second.dataPoints)) {
+        const firstDataPoints = new Map<string, any>((first.dataPoints || []).map((dp: any) => [dp.name, dp]));
+        const secondDataPoints = new Map<string, any>((second.dataPoints || []).map((dp: any) => [dp.name, dp]));
+
+        const onlyInFirst = [...firstDataPoints.keys()].filter(name => !secondDataPoints.has(name));
+        const onlyInSecond = [...secondDataPoints.keys()].filter(name => !firstDataPoints.has(name));
+        const changed = [...firstDataPoints.keys()]
+            .filter(name => secondDataPoints.has(name) && JSON.stringify(firstDataPoints.get(name)) !== JSON.stringify(secondDataPoints.get(name)));
+
+        if (onlyInFirst.length > 0) {
+            summary.push(`DataPoints only on ${firstLabel}: ${onlyInFirst.join(', ')}`);
+        }
+        if (onlyInSecond.length > 0) {
+            summary.push(`DataPoints only on ${secondLabel}: ${onlyInSecond.join(', ')}`);
+        }
+        for (const name of changed) {
+            const firstDataPoint = firstDataPoints.get(name);
+            const secondDataPoint = secondDataPoints.get(name);
+            const changedDataPointFields = [...new Set([...Object.keys(firstDataPoint), ...Object.keys(secondDataPoint)])]
+                .filter(key => JSON.stringify(firstDataPoint[key]) !== JSON.stringify(secondDataPoint[key]));
+            summary.push(`DataPoint '${name}' differs in: ${changedDataPointFields.join(', ')}`);
+        }
+    }
+    return summary;
+}
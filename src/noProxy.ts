@@ -0,0 +1,29 @@
+// Matches the host against http.noProxy / NO_PROXY entries: "*", a host, a host:port, or a domain suffix (".corp.com" or "*.corp.com").
+// Loopback addresses are never proxied, so a local stub server is reached directly.
+export function isProxyBypassed(baseUrl: string, noProxy: string[]): boolean {
+    let url: URL;
+    try {
+        url = new URL(baseUrl);
+    } catch (error) {
+        return false; // The request itself will report the bad URL
+    }
+    const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (hostname === 'localhost' || hostname === '::1' || hostname.startsWith('127.')) {
+        return true;
+    }
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+    return noProxy.map(entry => entry.trim().toLowerCase()).filter(entry => entry !== '').some(entry => {
+        if (entry === '*') {
+            return true;
+        }
+        // A bare IPv6 address has several colons and no port; anything else may end in :port
+        const [entryHost, entryPort] = entry.startsWith('[')
+            ? [entry.slice(1, entry.indexOf(']')), entry.split(']:')[1]]
+            : entry.split(':').length > 2 ? [entry, undefined] : entry.split(':');
+        if (entryPort && entryPort !== port) {
+            return false;
+        }
+        const domain = entryHost.replace(/^\*?\./, '');
+        return hostname === domain || hostname.endsWith(`.${domain}`);
+    });
+}
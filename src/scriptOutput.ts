@@ -0,0 +1,181 @@
+// Parses the output of collection and Active Discovery scripts the way LM reads it, kept free of the vscode API so it can be unit tested
+
+export interface CollectionDataPoint {
+    name: string;
+    postProcessorMethod?: string; // 'namevalue' and 'json' read a key from the output; others use the exit code or raw output
+    postProcessorParam?: string;
+}
+
+export interface CollectionValue {
+    instance: string;
+    key: string;
+    value: string;
+    dataPoint?: string; // Unset when no datapoint reads this key
+}
+
+export interface ParsedCollectionOutput {
+    format: string;
+    values: CollectionValue[];
+    invalidLines: string[]; // Lines that aren't key=value at all
+    missingDataPoints: string[]; // Datapoints that read a key the output didn't contain
+}
+
+// The output key a datapoint reads, without the ##WILDVALUE##. prefix BATCHSCRIPT datapoints use
+export function getDataPointKey(dataPoint: CollectionDataPoint): string | undefined {
+    if (dataPoint.postProcessorMethod !== 'namevalue' && dataPoint.postProcessorMethod !== 'json') {
+        return undefined;
+    }
+    return (dataPoint.postProcessorParam || dataPoint.name)
+        .replace(/^##WILDVALUE##\./i, '')
+        .replace(/^\$\./, '')
+        .replace(/^values\./, '');
+}
+
+// Parses collection output the way LM would for the DataSource's collect method: key=value lines for SCRIPT,
+// wildvalue.key=value lines for BATCHSCRIPT, or the JSON forms of either
+export function parseCollectionOutput(output: string, collectMethod: string, dataPoints: CollectionDataPoint[], instance: string): ParsedCollectionOutput {
+    const dataPointKeys = new Map<string, string>();
+    dataPoints.forEach(dataPoint => {
+        const key = getDataPointKey(dataPoint);
+        if (key) {
+            dataPointKeys.set(key.toLowerCase(), dataPoint.name);
+        }
+    });
+    const isBatch = collectMethod === 'batchscript';
+    const parsed: ParsedCollectionOutput = { format: isBatch ? 'BATCHSCRIPT key=value' : 'key=value', values: [], invalidLines: [], missingDataPoints: [] };
+    const addValue = (instanceName: string, key: string, value: any) => {
+        parsed.values.push({ instance: instanceName, key, value: typeof value === 'object' ? JSON.stringify(value) : String(value), dataPoint: dataPointKeys.get(key.toLowerCase()) });
+    };
+
+    const trimmed = output.trim();
+    let json: any;
+    if (trimmed.startsWith('{')) {
+        try {
+            json = JSON.parse(trimmed);
+        } catch (error) {
+            json = undefined; // Not JSON after all, fall back to lines
+        }
+    }
+
+    if (json && typeof json === 'object') {
+        if (json.data && typeof json.data === 'object') {
+            parsed.format = 'BATCHSCRIPT JSON';
+            for (const [wildValue, instanceData] of Object.entries<any>(json.data)) {
+                Object.entries(instanceData?.values || {}).forEach(([key, value]) => addValue(wildValue, key, value));
+            }
+        } else {
+            parsed.format = 'JSON';
+            Object.entries(json.values && typeof json.values === 'object' ? json.values : json).forEach(([key, value]) => addValue(instance, key, value));
+        }
+    } else {
+        for (const line of trimmed.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '')) {
+            const match = line.match(/^([^=]+?)\s*=\s*(.*)$/);
+            if (!match) {
+                parsed.invalidLines.push(line);
+                continue;
+            }
+            const [, lineKey, value] = match;
+            if (!isBatch) {
+                addValue(instance, lineKey, value);
+                continue;
+            }
+            // Wildvalues may contain dots, so prefer splitting off a known datapoint key
+            const knownKey = Array.from(dataPointKeys.keys()).find(key => lineKey.toLowerCase().endsWith(`.${key}`));
+            const splitAt = knownKey ? lineKey.length - knownKey.length - 1 : lineKey.lastIndexOf('.');
+            if (splitAt <= 0) {
+                parsed.invalidLines.push(line);
+                continue;
+            }
+            addValue(lineKey.slice(0, splitAt), lineKey.slice(splitAt + 1), value);
+        }
+    }
+
+    const foundKeys = new Set(parsed.values.map(value => value.key.toLowerCase()));
+    parsed.missingDataPoints = Array.from(dataPointKeys.entries()).filter(([key]) => !foundKeys.has(key)).map(([, name]) => name);
+    return parsed;
+}
+
+// Active Discovery rejects wildvalues containing these, and truncates fields past these lengths
+const INVALID_WILDVALUE_CHARACTERS = /[\s=:\\#]/g;
+const MAX_WILDVALUE_LENGTH = 1024;
+const MAX_WILDALIAS_LENGTH = 255;
+const MAX_DESCRIPTION_LENGTH = 255;
+
+export interface DiscoveredInstance {
+    line: number;
+    wildValue: string;
+    wildAlias: string;
+    description: string;
+    properties: { [name: string]: string };
+    problems: string[];
+}
+
+export interface ParsedDiscoveryOutput {
+    instances: DiscoveredInstance[];
+    invalidLines: { line: number; text: string; problem: string }[];
+}
+
+// Parses Active Discovery output, one wildvalue##wildalias##description####auto.prop=value&... line per instance
+export function parseDiscoveryOutput(output: string): ParsedDiscoveryOutput {
+    const parsed: ParsedDiscoveryOutput = { instances: [], invalidLines: [] };
+    const seenWildValues = new Map<string, number>();
+
+    output.split(/\r?\n/).forEach((text, index) => {
+        const line = index + 1;
+        if (text.trim() === '') {
+            return;
+        }
+        const fields = text.split('##');
+        if (fields.length < 2 || fields.length > 5) {
+            parsed.invalidLines.push({ line, text, problem: fields.length < 2 ? 'Expected at least wildvalue##wildalias' : `Expected at most 5 ##-separated fields, found ${fields.length}` });
+            return;
+        }
+
+        const [wildValue, wildAlias, description = '', , propertyList = ''] = fields;
+        const instance: DiscoveredInstance = { line, wildValue, wildAlias, description, properties: {}, problems: [] };
+
+        if (wildValue === '') {
+            instance.problems.push('Empty wildvalue');
+        }
+        const invalidCharacters = Array.from(new Set(wildValue.match(INVALID_WILDVALUE_CHARACTERS) || []));
+        if (invalidCharacters.length > 0) {
+            instance.problems.push(`Wildvalue contains invalid character(s): ${invalidCharacters.map(character => JSON.stringify(character)).join(', ')}`);
+        }
+        if (wildAlias.trim() === '') {
+            instance.problems.push('Empty wildalias');
+        }
+        if (wildValue.length > MAX_WILDVALUE_LENGTH) {
+            instance.problems.push(`Wildvalue is ${wildValue.length} characters, more than ${MAX_WILDVALUE_LENGTH}`);
+        }
+        if (wildAlias.length > MAX_WILDALIAS_LENGTH) {
+            instance.problems.push(`Wildalias is ${wildAlias.length} characters, more than ${MAX_WILDALIAS_LENGTH}`);
+        }
+        if (description.length > MAX_DESCRIPTION_LENGTH) {
+            instance.problems.push(`Description is ${description.length} characters, more than ${MAX_DESCRIPTION_LENGTH}`);
+        }
+        if (fields.length === 4 && fields[3] !== '') {
+            instance.problems.push('Property list must follow an empty field (description####properties)');
+        }
+
+        for (const property of propertyList.split('&').filter(property => property !== '')) {
+            const separator = property.indexOf('=');
+            const name = separator > 0 ? property.slice(0, separator).trim() : '';
+            if (!name || /\s/.test(name)) {
+                instance.problems.push(`Malformed property "${property}", expected name=value`);
+            } else if (name in instance.properties) {
+                instance.problems.push(`Duplicate property ${name}`);
+            } else {
+                instance.properties[name] = property.slice(separator + 1);
+            }
+        }
+
+        const firstLine = seenWildValues.get(wildValue);
+        if (firstLine !== undefined) {
+            instance.problems.push(`Duplicate wildvalue, first output on line ${firstLine}`);
+        } else {
+            seenWildValues.set(wildValue, line);
+        }
+        parsed.instances.push(instance);
+    });
+    return parsed;
+}
@@ -4,6 +4,11 @@ import * as assert from 'assert';
 // as well as import your extension to test it
 import * as vscode from 'vscode';
 // import * as myExtension from '../../extension';
+import { buildDeviceSearchFilter } from '../deviceSearch';
+import { applyBatchInstanceContext, applyInstanceContext, insertGroovyBinding, toGroovyString } from '../instanceContext';
+import { isProxyBypassed } from '../noProxy';
+import { normalizeDefinition, summarizeDefinitionDifferences } from '../moduleDefinitions';
+import { CollectionDataPoint, parseCollectionOutput, parseDiscoveryOutput } from '../scriptOutput';
 
 suite('Extension Test Suite', () => {
 	vscode.window.showInformationMessage('Start all tests.');
@@ -13,3 +18,285 @@ suite('Extension Test Suite', () => {
 		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
 	});
 });
+
+suite('parseCollectionOutput', () => {
+	const dataPoints: CollectionDataPoint[] = [
+		{ name: 'InOctets', postProcessorMethod: 'namevalue', postProcessorParam: '##WILDVALUE##.InOctets' },
+		{ name: 'OutOctets', postProcessorMethod: 'namevalue', postProcessorParam: 'OutOctets' },
+		{ name: 'ExitCode', postProcessorMethod: 'none' }
+	];
+
+	test('reads SCRIPT key=value lines for the given instance', () => {
+		const parsed = parseCollectionOutput('InOctets=10\nOutOctets = 20\n', 'script', dataPoints, 'eth0');
+		assert.strictEqual(parsed.format, 'key=value');
+		assert.deepStrictEqual(parsed.values, [
+			{ instance: 'eth0', key: 'InOctets', value: '10', dataPoint: 'InOctets' },
+			{ instance: 'eth0', key: 'OutOctets', value: '20', dataPoint: 'OutOctets' }
+		]);
+		assert.deepStrictEqual(parsed.invalidLines, []);
+		assert.deepStrictEqual(parsed.missingDataPoints, []);
+	});
+
+	test('reads BATCHSCRIPT wildvalue.key=value lines, including wildvalues with dots', () => {
+		const parsed = parseCollectionOutput('10.0.0.1.InOctets=5\neth1.outoctets=6', 'batchscript', dataPoints, '(device)');
+		assert.strictEqual(parsed.format, 'BATCHSCRIPT key=value');
+		assert.deepStrictEqual(parsed.values.map(value => [value.instance, value.key, value.dataPoint]), [
+			['10.0.0.1', 'InOctets', 'InOctets'],
+			['eth1', 'outoctets', 'OutOctets']
+		]);
+	});
+
+	test('falls back to the last dot for BATCHSCRIPT keys that match no datapoint', () => {
+		const parsed = parseCollectionOutput('a.b.Errors=1', 'batchscript', dataPoints, '(device)');
+		assert.deepStrictEqual(parsed.values, [{ instance: 'a.b', key: 'Errors', value: '1', dataPoint: undefined }]);
+	});
+
+	test('flags BATCHSCRIPT lines without a wildvalue', () => {
+		const parsed = parseCollectionOutput('InOctets=1', 'batchscript', dataPoints, '(device)');
+		assert.deepStrictEqual(parsed.values, []);
+		assert.deepStrictEqual(parsed.invalidLines, ['InOctets=1']);
+	});
+
+	test('reads BATCHSCRIPT JSON per wildvalue', () => {
+		const output = JSON.stringify({ data: { eth0: { values: { InOctets: 1, OutOctets: 2 } }, eth1: { values: { InOctets: 3 } } } });
+		const parsed = parseCollectionOutput(output, 'batchscript', dataPoints, '(device)');
+		assert.strictEqual(parsed.format, 'BATCHSCRIPT JSON');
+		assert.deepStrictEqual(parsed.values.map(value => `${value.instance}/${value.key}=${value.value}`), ['eth0/InOctets=1', 'eth0/OutOctets=2', 'eth1/InOctets=3']);
+	});
+
+	test('reads SCRIPT JSON, with or without a values object', () => {
+		const jsonDataPoints: CollectionDataPoint[] = [{ name: 'Status', postProcessorMethod: 'json', postProcessorParam: '$.values.status' }];
+		for (const output of ['{"values":{"status":"ok"}}', '{"status":"ok"}']) {
+			const parsed = parseCollectionOutput(output, 'script', jsonDataPoints, 'svc');
+			assert.strictEqual(parsed.format, 'JSON');
+			assert.deepStrictEqual(parsed.values, [{ instance: 'svc', key: 'status', value: 'ok', dataPoint: 'Status' }]);
+		}
+	});
+
+	test('treats output that only looks like JSON as lines', () => {
+		const parsed = parseCollectionOutput('{not json', 'script', dataPoints, 'eth0');
+		assert.deepStrictEqual(parsed.invalidLines, ['{not json']);
+	});
+
+	test('flags values that match no datapoint, unparseable lines and datapoints without a value', () => {
+		const parsed = parseCollectionOutput('InOctets=1\nDropped=2\nsomething went wrong', 'script', dataPoints, 'eth0');
+		assert.deepStrictEqual(parsed.values.filter(value => !value.dataPoint).map(value => value.key), ['Dropped']);
+		assert.deepStrictEqual(parsed.invalidLines, ['something went wrong']);
+		assert.deepStrictEqual(parsed.missingDataPoints, ['OutOctets']); // ExitCode doesn't read the output
+	});
+});
+
+suite('parseDiscoveryOutput', () => {
+	test('reads wildvalue, wildalias, description and properties', () => {
+		const parsed = parseDiscoveryOutput('eth0##Ethernet 0##Uplink####auto.speed=1000&auto.mac=00:11\r\neth1##Ethernet 1\n');
+		assert.deepStrictEqual(parsed.invalidLines, []);
+		assert.deepStrictEqual(parsed.instances, [
+			{ line: 1, wildValue: 'eth0', wildAlias: 'Ethernet 0', description: 'Uplink', properties: { 'auto.speed': '1000', 'auto.mac': '00:11' }, problems: [] },
+			{ line: 2, wildValue: 'eth1', wildAlias: 'Ethernet 1', description: '', properties: {}, problems: [] }
+		]);
+	});
+
+	test('keeps = in property values', () => {
+		const parsed = parseDiscoveryOutput('db##DB######auto.conn=host=a;port=1');
+		assert.deepStrictEqual(parsed.instances[0].properties, { 'auto.conn': 'host=a;port=1' });
+		assert.deepStrictEqual(parsed.instances[0].problems, []);
+	});
+
+	test('flags lines that are not in the discovery format', () => {
+		const parsed = parseDiscoveryOutput('just a wildvalue\na##b##c##d##e##f');
+		assert.deepStrictEqual(parsed.instances, []);
+		assert.deepStrictEqual(parsed.invalidLines.map(invalidLine => invalidLine.line), [1, 2]);
+	});
+
+	test('flags invalid characters in wildvalues', () => {
+		const parsed = parseDiscoveryOutput('C:\\data here##Data');
+		assert.deepStrictEqual(parsed.instances[0].problems, ['Wildvalue contains invalid character(s): ":", "\\\\", " "']);
+	});
+
+	test('flags empty wildvalues and wildaliases', () => {
+		const parsed = parseDiscoveryOutput('## ');
+		assert.deepStrictEqual(parsed.instances[0].problems, ['Empty wildvalue', 'Empty wildalias']);
+	});
+
+	test('flags duplicate wildvalues', () => {
+		const parsed = parseDiscoveryOutput('eth0##A\neth1##B\neth0##C');
+		assert.deepStrictEqual(parsed.instances.map(instance => instance.problems), [[], [], ['Duplicate wildvalue, first output on line 1']]);
+	});
+
+	test('flags over-long fields', () => {
+		const parsed = parseDiscoveryOutput(`${'w'.repeat(1025)}##${'a'.repeat(256)}##${'d'.repeat(256)}`);
+		assert.deepStrictEqual(parsed.instances[0].problems, [
+			'Wildvalue is 1025 characters, more than 1024',
+			'Wildalias is 256 characters, more than 255',
+			'Description is 256 characters, more than 255'
+		]);
+	});
+
+	test('flags properties not separated from the description by ####', () => {
+		const parsed = parseDiscoveryOutput('eth0##A##desc##auto.speed=1000');
+		assert.deepStrictEqual(parsed.instances[0].problems, ['Property list must follow an empty field (description####properties)']);
+		assert.deepStrictEqual(parseDiscoveryOutput('eth0##A##desc##').instances[0].problems, []);
+	});
+
+	test('flags malformed and duplicate properties', () => {
+		const parsed = parseDiscoveryOutput('eth0##A######auto.speed&=x&auto bad=1&auto.a=1&auto.a=2');
+		assert.deepStrictEqual(parsed.instances[0].properties, { 'auto.a': '1' });
+		assert.deepStrictEqual(parsed.instances[0].problems, [
+			'Malformed property "auto.speed", expected name=value',
+			'Malformed property "=x", expected name=value',
+			'Malformed property "auto bad=1", expected name=value',
+			'Duplicate property auto.a'
+		]);
+	});
+});
+
+suite('normalizeDefinition', () => {
+	test('drops volatile fields at any depth and sorts keys', () => {
+		const normalized = normalizeDefinition({
+			version: 3,
+			name: 'CPU',
+			id: 12,
+			dataPoints: [{ id: 1, dataSourceId: 12, name: 'Idle', description: '' }],
+			collectorAttribute: { modifiedOn: 1700000000, groovyScript: 'return 0' }
+		});
+		assert.deepStrictEqual(normalized, {
+			collectorAttribute: { groovyScript: 'return 0' },
+			dataPoints: [{ description: '', name: 'Idle' }],
+			name: 'CPU'
+		});
+		assert.deepStrictEqual(Object.keys(normalized), ['collectorAttribute', 'dataPoints', 'name']);
+	});
+
+	test('makes copies from different portals equal when only volatile fields differ', () => {
+		const prod = { id: 1, version: 5, name: 'CPU', installationMetadata: { a: 1 }, appliesTo: 'isLinux()' };
+		const sandbox = { appliesTo: 'isLinux()', name: 'CPU', id: 99, version: 7 };
+		assert.strictEqual(JSON.stringify(normalizeDefinition(prod)), JSON.stringify(normalizeDefinition(sandbox)));
+	});
+
+	test('leaves scalars and nulls alone', () => {
+		assert.strictEqual(normalizeDefinition('text'), 'text');
+		assert.strictEqual(normalizeDefinition(null), null);
+	});
+});
+
+suite('summarizeDefinitionDifferences', () => {
+	test('lists differing fields and datapoints', () => {
+		const summary = summarizeDefinitionDifferences(
+			{ appliesTo: 'true()', collectInterval: 60, dataPoints: [{ name: 'Idle', alertExpr: '> 90' }, { name: 'User' }] },
+			{ appliesTo: 'false()', collectInterval: 60, dataPoints: [{ name: 'Idle', alertExpr: '> 95' }, { name: 'System' }] },
+			'prod', 'sandbox');
+		assert.deepStrictEqual(summary, [
+			'Fields that differ: appliesTo',
+			'DataPoints only on prod: User',
+			'DataPoints only on sandbox: System',
+			"DataPoint 'Idle' differs in: alertExpr"
+		]);
+	});
+});
+
+suite('buildDeviceSearchFilter', () => {
+	test('matches display name or name by default', () => {
+		assert.strictEqual(buildDeviceSearchFilter('web01'), 'displayName~"web01"||name~"web01"');
+	});
+
+	test('matches a system property for prop=value', () => {
+		assert.strictEqual(buildDeviceSearchFilter('system.sysinfo = Linux'), 'systemProperties.name:"system.sysinfo",systemProperties.value~"Linux"');
+	});
+
+	test('keeps quotes in the query from breaking out of the filter value', () => {
+		assert.strictEqual(buildDeviceSearchFilter('web "01", db'), 'displayName~"web 01, db"||name~"web 01, db"');
+		assert.strictEqual(buildDeviceSearchFilter('location="DC 1"'), 'systemProperties.name:"location",systemProperties.value~"DC 1"');
+	});
+
+	test('matches system.ips for IPv4 and IPv6 addresses', () => {
+		assert.strictEqual(buildDeviceSearchFilter('10.0.1'), 'systemProperties.name:"system.ips",systemProperties.value~"10.0.1"');
+		assert.strictEqual(buildDeviceSearchFilter('fe80::1'), 'systemProperties.name:"system.ips",systemProperties.value~"fe80::1"');
+	});
+});
+
+suite('isProxyBypassed', () => {
+	test('never proxies loopback addresses', () => {
+		assert.strictEqual(isProxyBypassed('http://localhost:8080/santaba/rest', []), true);
+		assert.strictEqual(isProxyBypassed('http://127.0.0.1:8080', []), true);
+		assert.strictEqual(isProxyBypassed('http://[::1]:8080', []), true);
+	});
+
+	test('proxies everything else when the list is empty', () => {
+		assert.strictEqual(isProxyBypassed('https://acme.logicmonitor.com/santaba/rest', ['', ' ']), false);
+	});
+
+	test('bypasses every host for *', () => {
+		assert.strictEqual(isProxyBypassed('https://acme.logicmonitor.com/santaba/rest', ['*']), true);
+	});
+
+	test('matches exact hosts and their subdomains, case-insensitively', () => {
+		assert.strictEqual(isProxyBypassed('https://lm.corp.com', ['LM.corp.com']), true);
+		assert.strictEqual(isProxyBypassed('https://api.lm.corp.com', ['lm.corp.com']), true);
+		assert.strictEqual(isProxyBypassed('https://notlm.corp.com', ['lm.corp.com']), false);
+	});
+
+	test('matches leading-dot and wildcard domain suffixes', () => {
+		assert.strictEqual(isProxyBypassed('https://acme.lmgov.us', ['.lmgov.us']), true);
+		assert.strictEqual(isProxyBypassed('https://acme.lmgov.us', ['*.lmgov.us']), true);
+		assert.strictEqual(isProxyBypassed('https://acme.lmgov.us.evil.com', ['.lmgov.us']), false);
+	});
+
+	test('only matches host:port entries on that port, defaulting by protocol', () => {
+		assert.strictEqual(isProxyBypassed('http://stub.internal:8080', ['stub.internal:8080']), true);
+		assert.strictEqual(isProxyBypassed('http://stub.internal:9090', ['stub.internal:8080']), false);
+		assert.strictEqual(isProxyBypassed('https://stub.internal', ['stub.internal:443']), true);
+	});
+
+	test('matches IPv6 entries with and without brackets', () => {
+		assert.strictEqual(isProxyBypassed('http://[fd00::5]:8080', ['fd00::5']), true);
+		assert.strictEqual(isProxyBypassed('http://[fd00::5]:8080', ['[fd00::5]:8080']), true);
+	});
+
+	test('leaves unparseable base URLs to the request to report', () => {
+		assert.strictEqual(isProxyBypassed('not a url', ['*']), false);
+	});
+});
+
+suite('toGroovyString', () => {
+	test('escapes quotes and backslashes', () => {
+		assert.strictEqual(toGroovyString("it's"), "'it\\'s'");
+		assert.strictEqual(toGroovyString('C:\\Temp'), "'C:\\\\Temp'");
+	});
+
+	test('leaves ${} alone since single-quoted strings are not interpolated', () => {
+		assert.strictEqual(toGroovyString('${hostProps}'), "'${hostProps}'");
+	});
+
+	test('keeps multi-line values on one line', () => {
+		assert.strictEqual(toGroovyString('first\r\nsecond'), "'first\\r\\nsecond'");
+	});
+});
+
+suite('insertGroovyBinding', () => {
+	test('inserts at the top of a script without imports', () => {
+		assert.strictEqual(insertGroovyBinding('println 1', 'x = 1'), 'x = 1\nprintln 1');
+	});
+
+	test('inserts after the package, imports and leading comments', () => {
+		const script = 'package foo\n// header\n/* block\n import bar.Baz\n*/\nimport groovy.json.JsonSlurper\n\nprintln 1';
+		assert.strictEqual(insertGroovyBinding(script, 'x = 1'),
+			'package foo\n// header\n/* block\n import bar.Baz\n*/\nimport groovy.json.JsonSlurper\nx = 1\n\nprintln 1');
+	});
+});
+
+suite('applyInstanceContext', () => {
+	const instanceProps = { wildvalue: "C$&'", wildvalue2: 'two', wildalias: 'alias', description: 'desc' };
+
+	test('substitutes tokens without expanding $ patterns in their values', () => {
+		assert.strictEqual(applyInstanceContext('##WILDVALUE## ##wildalias## ##DSIDESCRIPTION##', '!posh', instanceProps), "C$&' alias desc");
+	});
+
+	test('binds instanceProps for Groovy scripts', () => {
+		assert.strictEqual(applyInstanceContext('println 1', '!groovy', { wildvalue: 'a' }), "instanceProps = ['wildvalue': 'a']\nprintln 1");
+	});
+
+	test('binds datasourceinstanceProps for BATCHSCRIPT scripts', () => {
+		assert.strictEqual(applyBatchInstanceContext('println 1', { a: { wildvalue: 'a' } }), "datasourceinstanceProps = ['a': [['wildvalue': 'a']]]\nprintln 1");
+		assert.strictEqual(applyBatchInstanceContext('println 1', {}), 'datasourceinstanceProps = [:]\nprintln 1');
+	});
+});